@@ -1,6 +1,7 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { AuthorizationError, toActionError } from "@/lib/auth/errors";
 import { getCurrentUser } from "@/lib/auth/helpers";
 import { deleteNewsletter as deleteNewsletterDb } from "./newsletter";
 
@@ -18,7 +19,8 @@ import { deleteNewsletter as deleteNewsletterDb } from "./newsletter";
  * 4. Revalidates the cache to update UI
  *
  * @param newsletterId - ID of the newsletter to delete
- * @returns Success status
+ * @returns Success status, with the reason if the newsletter isn't the
+ *   user's
  */
 export async function deleteNewsletterAction(newsletterId: string) {
   try {
@@ -31,9 +33,12 @@ export async function deleteNewsletterAction(newsletterId: string) {
     // Revalidate the history page cache to update the list
     revalidatePath("/dashboard/history");
 
-    return { success: true };
+    return { success: true as const };
   } catch (error) {
     console.error("Failed to delete newsletter:", error);
+    if (error instanceof AuthorizationError) {
+      return toActionError(error);
+    }
     throw new Error(
       error instanceof Error ? error.message : "Failed to delete newsletter",
     );
@@ -1,13 +1,26 @@
 "use server";
 
-import { openai } from "@ai-sdk/openai";
 import { streamObject } from "ai";
 import { z } from "zod";
-import { checkIsProUser, getCurrentUser } from "@/lib/auth/helpers";
+import { resolveModelId } from "@/lib/ai/models";
+import { getLanguageModel } from "@/lib/ai/registry";
+import { assertFeedsOwnedBy } from "@/lib/auth/authorization";
+import { toActionError } from "@/lib/auth/errors";
+import { getCurrentEntitlements, getCurrentUser } from "@/lib/auth/helpers";
+import {
+  assertCanSaveNewsletter,
+  assertFeedsActive,
+} from "@/lib/auth/plan-limits";
 import {
   buildArticleSummaries,
   buildNewsletterPrompt,
 } from "@/lib/newsletter/prompt-builder";
+import {
+  assertGenerationQuota,
+  recordGenerationTokens,
+  releaseGeneration,
+  reserveGeneration,
+} from "@/lib/newsletter/usage";
 import { prepareFeedsAndArticles } from "@/lib/rss/feed-refresh";
 import { createNewsletter } from "./newsletter";
 import { getUserSettingsByUserId } from "./user-settings";
@@ -36,14 +49,17 @@ export type GeneratedNewsletter = z.infer<typeof NewsletterSchema>;
  * Generates a newsletter with AI streaming
  *
  * This is the main function for newsletter generation. It:
- * 1. Authenticates the user
- * 2. Fetches user settings for customization
+ * 1. Authenticates the user and checks they own every feed, that none
+ *    is paused by the plan's feed limit, and that a generation is left
+ * 2. Fetches user settings for customization (plans with customSettings)
  * 3. Prepares feeds and retrieves articles
  * 4. Builds an AI prompt with all context
- * 5. Streams the AI-generated newsletter in real-time
+ * 5. Counts the generation and streams the AI-generated newsletter,
+ *    recording token usage when it finishes
  *
  * @param params - Feed IDs, date range, and optional user instructions
- * @returns Object with the stream and article count
+ * @returns Object with the stream and article count, or success: false
+ *   if a feed isn't usable or the monthly generation quota is used up
  */
 export async function generateNewsletterStream(params: {
   feedIds: string[];
@@ -51,48 +67,78 @@ export async function generateNewsletterStream(params: {
   endDate: Date;
   userInput?: string;
 }) {
-  // Get authenticated user from database
-  const user = await getCurrentUser();
+  try {
+    // Get authenticated user from database
+    const user = await getCurrentUser();
+    const entitlements = await getCurrentEntitlements();
+    await assertFeedsOwnedBy(user.id, params.feedIds);
+    await assertFeedsActive(user.id, params.feedIds, entitlements);
+    await assertGenerationQuota(user.id, entitlements);
+
+    // Get user's newsletter settings (tone, branding, etc.)
+    const settings = entitlements.customSettings
+      ? await getUserSettingsByUserId(user.id)
+      : null;
 
-  // Get user's newsletter settings (tone, branding, etc.)
-  const settings = await getUserSettingsByUserId(user.id);
+    // Fetch and refresh articles from RSS feeds
+    const articles = await prepareFeedsAndArticles({
+      ...params,
+      userId: user.id,
+    });
 
-  // Fetch and refresh articles from RSS feeds
-  const articles = await prepareFeedsAndArticles(params);
+    // Build the AI prompt with articles and settings
+    const articleSummaries = buildArticleSummaries(articles);
+    const prompt = buildNewsletterPrompt({
+      startDate: params.startDate,
+      endDate: params.endDate,
+      articleSummaries,
+      articleCount: articles.length,
+      userInput: params.userInput,
+      settings,
+    });
 
-  // Build the AI prompt with articles and settings
-  const articleSummaries = buildArticleSummaries(articles);
-  const prompt = buildNewsletterPrompt({
-    startDate: params.startDate,
-    endDate: params.endDate,
-    articleSummaries,
-    articleCount: articles.length,
-    userInput: params.userInput,
-    settings,
-  });
+    // Count the generation against the monthly quota
+    const periodStart = await reserveGeneration(user.id, entitlements);
 
-  // Generate newsletter using AI with streaming for real-time updates
-  const { partialObjectStream } = await streamObject({
-    model: openai("gpt-4o"),
-    schema: NewsletterSchema,
-    prompt,
-  });
+    // Generate newsletter using AI with streaming for real-time updates
+    const { partialObjectStream } = await streamObject({
+      model: getLanguageModel(
+        resolveModelId(settings?.preferredModel, entitlements),
+      ),
+      schema: NewsletterSchema,
+      prompt,
+      onFinish: async ({ usage }) => {
+        await recordGenerationTokens(user.id, periodStart, usage).catch(
+          (error) => console.error("Failed to record generation usage:", error),
+        );
+      },
+      onError: async ({ error }) => {
+        console.error("Newsletter generation failed:", error);
+        await releaseGeneration(user.id, periodStart).catch((releaseError) =>
+          console.error("Failed to release generation:", releaseError),
+        );
+      },
+    });
 
-  return {
-    stream: partialObjectStream,
-    articlesAnalyzed: articles.length,
-  };
+    return {
+      success: true as const,
+      stream: partialObjectStream,
+      articlesAnalyzed: articles.length,
+    };
+  } catch (error) {
+    return toActionError(error);
+  }
 }
 
 /**
  * Saves a generated newsletter to the database
  *
- * Only Pro users can save newsletters to their history.
+ * Only plans with saved newsletter history can save (see entitlements).
  * This allows them to reference past newsletters and track their content.
  *
  * @param params - Newsletter data and generation parameters
- * @returns Saved newsletter record
- * @throws Error if user is not Pro or not authenticated
+ * @returns Saved newsletter record, or success: false if the plan can't
+ *   save more newsletters
  */
 export async function saveGeneratedNewsletter(params: {
   newsletter: GeneratedNewsletter;
@@ -101,28 +147,30 @@ export async function saveGeneratedNewsletter(params: {
   endDate: Date;
   userInput?: string;
 }) {
-  // Check if user has Pro plan (required for saving)
-  const isPro = await checkIsProUser();
-  if (!isPro) {
-    throw new Error("Pro plan required to save newsletters");
-  }
+  try {
+    // Get authenticated user
+    const user = await getCurrentUser();
+    await assertFeedsOwnedBy(user.id, params.feedIds);
 
-  // Get authenticated user
-  const user = await getCurrentUser();
+    // Check the plan allows saving another newsletter
+    await assertCanSaveNewsletter(user.id, await getCurrentEntitlements());
 
-  // Save newsletter to database
-  const savedNewsletter = await createNewsletter({
-    userId: user.id,
-    suggestedTitles: params.newsletter.suggestedTitles,
-    suggestedSubjectLines: params.newsletter.suggestedSubjectLines,
-    body: params.newsletter.body,
-    topAnnouncements: params.newsletter.topAnnouncements,
-    additionalInfo: params.newsletter.additionalInfo,
-    startDate: params.startDate,
-    endDate: params.endDate,
-    userInput: params.userInput,
-    feedsUsed: params.feedIds,
-  });
+    // Save newsletter to database
+    const savedNewsletter = await createNewsletter({
+      userId: user.id,
+      suggestedTitles: params.newsletter.suggestedTitles,
+      suggestedSubjectLines: params.newsletter.suggestedSubjectLines,
+      body: params.newsletter.body,
+      topAnnouncements: params.newsletter.topAnnouncements,
+      additionalInfo: params.newsletter.additionalInfo,
+      startDate: params.startDate,
+      endDate: params.endDate,
+      userInput: params.userInput,
+      feedsUsed: params.feedIds,
+    });
 
-  return savedNewsletter;
+    return { success: true as const, newsletter: savedNewsletter };
+  } catch (error) {
+    return toActionError(error);
+  }
 }
@@ -4,7 +4,7 @@
 export * from "./delete-newsletter";
 export * from "./generate-newsletter";
 export * from "./newsletter";
-export * from "./rss-article";
+export * from "./opml";
 export * from "./rss-feed";
 export * from "./rss-fetch";
 export * from "./user";
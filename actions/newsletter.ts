@@ -1,5 +1,7 @@
 "use server";
 
+import { requireCurrentUser } from "@/lib/auth/authorization";
+import { ForbiddenError, NotFoundError } from "@/lib/auth/errors";
 import { wrapDatabaseOperation } from "@/lib/database/error-handler";
 import { prisma } from "@/lib/prisma";
 
@@ -29,6 +31,8 @@ export async function createNewsletter(data: {
   feedsUsed: string[];
 }) {
   return wrapDatabaseOperation(async () => {
+    await requireCurrentUser(data.userId);
+
     return await prisma.newsletter.create({
       data: {
         userId: data.userId,
@@ -64,6 +68,8 @@ export async function getNewslettersByUserId(
   },
 ) {
   return wrapDatabaseOperation(async () => {
+    await requireCurrentUser(userId);
+
     return await prisma.newsletter.findMany({
       where: {
         userId,
@@ -85,10 +91,13 @@ export async function getNewslettersByUserId(
  *
  * @param id - Newsletter ID
  * @param userId - User's database ID for authorization
- * @returns Newsletter or null if not found/unauthorized
+ * @returns Newsletter or null if not found
+ * @throws ForbiddenError if the newsletter belongs to another user
  */
 export async function getNewsletterById(id: string, userId: string) {
   return wrapDatabaseOperation(async () => {
+    await requireCurrentUser(userId);
+
     const newsletter = await prisma.newsletter.findUnique({
       where: {
         id,
@@ -102,7 +111,7 @@ export async function getNewsletterById(id: string, userId: string) {
 
     // Authorization: ensure newsletter belongs to user
     if (newsletter.userId !== userId) {
-      throw new Error("Unauthorized: Newsletter does not belong to user");
+      throw new ForbiddenError("Newsletter does not belong to user");
     }
 
     return newsletter;
@@ -119,6 +128,8 @@ export async function getNewsletterById(id: string, userId: string) {
  */
 export async function getNewslettersCountByUserId(userId: string) {
   return wrapDatabaseOperation(async () => {
+    await requireCurrentUser(userId);
+
     return await prisma.newsletter.count({
       where: {
         userId,
@@ -139,6 +150,8 @@ export async function getNewslettersCountByUserId(userId: string) {
  */
 export async function deleteNewsletter(id: string, userId: string) {
   return wrapDatabaseOperation(async () => {
+    await requireCurrentUser(userId);
+
     // Verify the newsletter exists and belongs to the user
     const newsletter = await prisma.newsletter.findUnique({
       where: {
@@ -147,11 +160,11 @@ export async function deleteNewsletter(id: string, userId: string) {
     });
 
     if (!newsletter) {
-      throw new Error("Newsletter not found");
+      throw new NotFoundError("Newsletter not found");
     }
 
     if (newsletter.userId !== userId) {
-      throw new Error("Unauthorized: Newsletter does not belong to user");
+      throw new ForbiddenError("Newsletter does not belong to user");
     }
 
     // Delete the newsletter
@@ -0,0 +1,126 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getFeedLimitMessage } from "@/lib/auth/entitlements";
+import { getCurrentEntitlements, getCurrentUser } from "@/lib/auth/helpers";
+import { parseOpml } from "@/lib/rss/opml";
+import type { OpmlImportItem } from "@/lib/rss/types";
+import { canonicalizeFeedUrl } from "@/lib/utils/url";
+import { getRssFeedsByUserId } from "./rss-feed";
+import { validateAndAddFeed } from "./rss-fetch";
+
+// ============================================
+// OPML ACTIONS
+// ============================================
+
+/**
+ * Number of feeds validated and fetched at the same time during import
+ */
+const IMPORT_BATCH_SIZE = 5;
+
+/**
+ * Validates and adds one imported feed, recording the outcome on the item
+ * Returns true if the feed was added
+ */
+async function addImportedFeed(item: OpmlImportItem): Promise<boolean> {
+  try {
+    const result = await validateAndAddFeed(item.url, {
+      folder: item.folder,
+    });
+    if (!result.success) {
+      item.status = "failed";
+      item.message = result.error;
+      return false;
+    }
+    if (result.warning) {
+      item.message = result.warning;
+    }
+    return true;
+  } catch (error) {
+    item.status = "failed";
+    item.message =
+      error instanceof Error ? error.message : "Failed to add feed";
+    return false;
+  }
+}
+
+/**
+ * Imports feed subscriptions from an OPML document for the authenticated user
+ *
+ * This action:
+ * 1. Parses the OPML and flattens nested outlines into folders
+ * 2. Skips feeds the user already has (or that appear twice in the file)
+ * 3. Validates and adds the rest through validateAndAddFeed, a few at a time
+ * 4. Stops adding once the plan's feed limit is reached - only feeds that
+ *    were actually added count, so a feed that fails frees its slot for
+ *    the next one in the file
+ *
+ * @param opml - OPML XML document
+ * @returns Per-feed outcome plus totals
+ */
+export async function importOpmlFeeds(opml: string) {
+  const user = await getCurrentUser();
+  const entitlements = await getCurrentEntitlements();
+
+  const entries = parseOpml(opml);
+  if (entries.length === 0) {
+    throw new Error("No feeds found in OPML file");
+  }
+
+  const existingFeeds = await getRssFeedsByUserId(user.id);
+  const knownUrls = new Set(existingFeeds.map((feed) => feed.url));
+  let feedCount = existingFeeds.length;
+
+  const results: OpmlImportItem[] = [];
+  const toAdd: OpmlImportItem[] = [];
+
+  for (const entry of entries) {
+    const item: OpmlImportItem = {
+      url: canonicalizeFeedUrl(entry.url),
+      title: entry.title,
+      folder: entry.folder,
+      status: "added",
+    };
+    results.push(item);
+
+    if (knownUrls.has(item.url)) {
+      item.status = "duplicate";
+      item.message = "Already subscribed";
+      continue;
+    }
+
+    knownUrls.add(item.url);
+    toAdd.push(item);
+  }
+
+  // Validate and add in small batches to stay polite to feed servers;
+  // a batch never has more feeds than there are free slots, so the limit
+  // is never exceeded
+  let next = 0;
+  while (next < toAdd.length && feedCount < entitlements.maxFeeds) {
+    const batchSize = Math.min(
+      IMPORT_BATCH_SIZE,
+      entitlements.maxFeeds - feedCount,
+    );
+    const batch = toAdd.slice(next, next + batchSize);
+    next += batch.length;
+
+    const added = await Promise.all(batch.map(addImportedFeed));
+    feedCount += added.filter(Boolean).length;
+  }
+
+  for (const item of toAdd.slice(next)) {
+    item.status = "limit";
+    item.message = getFeedLimitMessage(entitlements);
+  }
+
+  revalidatePath("/dashboard");
+
+  return {
+    results,
+    added: results.filter((item) => item.status === "added").length,
+    duplicates: results.filter((item) => item.status === "duplicate").length,
+    failed: results.filter((item) => item.status === "failed").length,
+    overLimit: results.filter((item) => item.status === "limit").length,
+  };
+}
@@ -1,11 +1,21 @@
 "use server";
 
+import { requireCurrentUser, requireOwnedFeed } from "@/lib/auth/authorization";
+import { type ActionError, toActionError } from "@/lib/auth/errors";
 import { wrapDatabaseOperation } from "@/lib/database/error-handler";
 import {
-  FEED_ORDER_BY_CREATED_DESC,
-  FEED_WITH_COUNT_INCLUDE,
+  ARTICLE_ORDER_BY_DATE_DESC,
+  SUBSCRIPTION_ORDER_BY_CREATED_DESC,
+  SUBSCRIPTION_WITH_SOURCE_INCLUDE,
 } from "@/lib/database/prisma-helpers";
 import { prisma } from "@/lib/prisma";
+import { deleteFeedSource } from "@/lib/rss/feed-source";
+import {
+  createArticleFilter,
+  toFeedFilterRules,
+  validateFilterRules,
+} from "@/lib/rss/filters";
+import type { FeedFilterRule } from "@/lib/rss/types";
 
 // ============================================
 // RSS FEED ACTIONS
@@ -13,64 +23,323 @@ import { prisma } from "@/lib/prisma";
 
 /**
  * Fetches all RSS feeds for a specific user with article counts
+ *
+ * Each feed is the user's subscription merged with its shared source:
+ * the ID is the subscription ID, the title is the user's custom title
+ * (falling back to the source's), and URL, fetch state and health come
+ * from the source.
+ *
+ * @throws ForbiddenError if userId isn't the signed-in user
  */
 export async function getRssFeedsByUserId(userId: string) {
   return wrapDatabaseOperation(async () => {
-    return await prisma.rssFeed.findMany({
+    await requireCurrentUser(userId);
+
+    const subscriptions = await prisma.subscription.findMany({
       where: {
         userId,
       },
-      include: FEED_WITH_COUNT_INCLUDE,
-      orderBy: FEED_ORDER_BY_CREATED_DESC,
+      include: SUBSCRIPTION_WITH_SOURCE_INCLUDE,
+      orderBy: SUBSCRIPTION_ORDER_BY_CREATED_DESC,
     });
+
+    return subscriptions.map(({ source, ...subscription }) => ({
+      id: subscription.id,
+      sourceId: source.id,
+      url: source.url,
+      title: subscription.customTitle ?? source.title,
+      customTitle: subscription.customTitle,
+      sourceTitle: source.title,
+      note: subscription.note,
+      description: source.description,
+      link: source.link,
+      imageUrl: source.imageUrl,
+      folder: subscription.folder,
+      tags: subscription.tags,
+      fullTextEnabled: subscription.fullTextEnabled,
+      filterRules: toFeedFilterRules(subscription.filterRules),
+      lastFetched: source.lastFetched,
+      refreshInterval: source.refreshInterval,
+      consecutiveFailures: source.consecutiveFailures,
+      lastError: source.lastError,
+      lastSuccessAt: source.lastSuccessAt,
+      nextRetryAt: source.nextRetryAt,
+      createdAt: subscription.createdAt,
+      _count: source._count,
+    }));
   }, "fetch RSS feeds");
 }
 
 /**
- * Updates the lastFetched timestamp for an RSS feed
+ * Turns full-text extraction on or off for an RSS feed
+ * Articles are extracted on the source's next refresh
  */
-export async function updateFeedLastFetched(feedId: string) {
+export async function setFeedFullTextEnabled(feedId: string, enabled: boolean) {
   return wrapDatabaseOperation(async () => {
-    return await prisma.rssFeed.update({
+    await requireOwnedFeed(feedId);
+
+    const feed = await prisma.subscription.update({
       where: { id: feedId },
-      data: {
-        lastFetched: new Date(),
-      },
+      data: { fullTextEnabled: enabled },
     });
-  }, "update feed last fetched");
+
+    return { success: true as const, feed };
+  }, "update feed full-text setting").catch(toActionError);
 }
 
 /**
- * Permanently deletes an RSS feed and cleans up articles not referenced by other feeds
+ * Longest custom feed name
  */
-export async function deleteRssFeed(feedId: string) {
+const MAX_CUSTOM_TITLE_LENGTH = 200;
+
+/**
+ * Longest feed note - it is sent with every article of the feed
+ */
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Renames an RSS feed and sets its note
+ *
+ * The custom title replaces the source's title in the dashboard and in
+ * newsletter prompts; a blank title goes back to the source's own title.
+ * The note (e.g. "official vendor blog, treat as primary source") is
+ * passed to the AI with each of the feed's articles.
+ * A title or note that is too long is returned as a failed result.
+ */
+export async function updateFeedDetails(
+  feedId: string,
+  details: { customTitle: string | null; note: string | null },
+) {
+  const customTitle = details.customTitle?.trim() || null;
+  const note = details.note?.trim() || null;
+
+  if (customTitle && customTitle.length > MAX_CUSTOM_TITLE_LENGTH) {
+    return {
+      success: false as const,
+      error: `Feed name must be at most ${MAX_CUSTOM_TITLE_LENGTH} characters`,
+    };
+  }
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return {
+      success: false as const,
+      error: `Note must be at most ${MAX_NOTE_LENGTH} characters`,
+    };
+  }
+
   return wrapDatabaseOperation(async () => {
-    // MongoDB-specific: Remove feedId from sourceFeedIds arrays
-    await prisma.$runCommandRaw({
-      update: "RssArticle",
-      updates: [
-        {
-          q: { sourceFeedIds: feedId },
-          u: { $pull: { sourceFeedIds: feedId } },
-          multi: true,
-        },
-      ],
+    await requireOwnedFeed(feedId);
+
+    const feed = await prisma.subscription.update({
+      where: { id: feedId },
+      data: { customTitle, note },
     });
 
-    // Delete articles that have no more feed references (empty sourceFeedIds)
-    await prisma.rssArticle.deleteMany({
-      where: {
-        sourceFeedIds: {
-          isEmpty: true,
-        },
+    return { success: true as const, feed };
+  }, "update feed details").catch(toActionError);
+}
+
+/**
+ * Maximum number of tags per feed
+ */
+const MAX_FEED_TAGS = 20;
+
+/**
+ * Longest folder name or tag a feed may use
+ */
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Trims a folder name or tag and collapses its whitespace
+ * Returns null for blank values
+ */
+function normalizeLabel(value: string): string | null {
+  return value.trim().replace(/\s+/g, " ") || null;
+}
+
+/**
+ * Failed result for a folder name or tag over MAX_LABEL_LENGTH
+ */
+function labelTooLong(kind: string, label: string): ActionError {
+  return {
+    success: false,
+    error: `${kind} must be at most ${MAX_LABEL_LENGTH} characters: ${label}`,
+  };
+}
+
+/**
+ * Moves an RSS feed to a folder and replaces its tags
+ *
+ * Tags differing only in case are merged (keeping the first spelling).
+ * A blank folder removes the feed from its folder. A folder name or tag
+ * that is too long, or too many tags, is returned as a failed result.
+ */
+export async function updateFeedOrganization(
+  feedId: string,
+  organization: { folder: string | null; tags: string[] },
+) {
+  const folder = organization.folder
+    ? normalizeLabel(organization.folder)
+    : null;
+  if (folder && folder.length > MAX_LABEL_LENGTH) {
+    return labelTooLong("Folder", folder);
+  }
+
+  const tags = new Map<string, string>();
+  for (const value of organization.tags) {
+    const tag = normalizeLabel(value);
+    if (tag && tag.length > MAX_LABEL_LENGTH) {
+      return labelTooLong("Tag", tag);
+    }
+    if (tag && !tags.has(tag.toLowerCase())) {
+      tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  if (tags.size > MAX_FEED_TAGS) {
+    return {
+      success: false as const,
+      error: `A feed can have at most ${MAX_FEED_TAGS} tags`,
+    };
+  }
+
+  return wrapDatabaseOperation(async () => {
+    await requireOwnedFeed(feedId);
+
+    const feed = await prisma.subscription.update({
+      where: { id: feedId },
+      data: { folder, tags: [...tags.values()] },
+    });
+
+    return { success: true as const, feed };
+  }, "update feed folder and tags").catch(toActionError);
+}
+
+/**
+ * Number of recent articles shown in the filter rule preview
+ */
+const FILTER_PREVIEW_LIMIT = 50;
+
+/**
+ * Validates rules sent by the feed editor (see validateFilterRules)
+ * The first invalid rule is returned as a failed result
+ */
+function checkFilterRules(
+  rules: FeedFilterRule[],
+): { success: true; filterRules: FeedFilterRule[] } | ActionError {
+  try {
+    return { success: true, filterRules: validateFilterRules(rules) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Invalid filter rules",
+    };
+  }
+}
+
+/**
+ * Replaces the include/exclude filter rules of an RSS feed
+ * Rules apply the next time articles are picked for a newsletter
+ * An invalid rule is returned as a failed result
+ */
+export async function updateFeedFilterRules(
+  feedId: string,
+  rules: FeedFilterRule[],
+) {
+  const checked = checkFilterRules(rules);
+  if (!checked.success) {
+    return checked;
+  }
+  const { filterRules } = checked;
+
+  return wrapDatabaseOperation(async () => {
+    await requireOwnedFeed(feedId);
+
+    const feed = await prisma.subscription.update({
+      where: { id: feedId },
+      data: { filterRules },
+    });
+
+    return { success: true as const, feed };
+  }, "update feed filter rules").catch(toActionError);
+}
+
+/**
+ * Shows which of a feed's recent articles a set of rules would drop
+ *
+ * Runs unsaved rules from the feed editor against the source's latest
+ * articles, so users can check a rule before saving it.
+ *
+ * @param feedId - Subscription ID
+ * @param rules - Rules to try
+ * @returns Recent articles with the indexes of the rules that drop them,
+ *   or a failed result for the first invalid rule
+ */
+export async function previewFeedFilterRules(
+  feedId: string,
+  rules: FeedFilterRule[],
+) {
+  const checked = checkFilterRules(rules);
+  if (!checked.success) {
+    return checked;
+  }
+  const { filterRules } = checked;
+
+  return wrapDatabaseOperation(async () => {
+    const { subscription } = await requireOwnedFeed(feedId);
+
+    const articles = await prisma.rssArticle.findMany({
+      where: { sourceIds: { has: subscription.sourceId } },
+      select: {
+        id: true,
+        title: true,
+        link: true,
+        pubDate: true,
+        author: true,
+        categories: true,
+        summary: true,
+        contentMarkdown: true,
       },
+      orderBy: ARTICLE_ORDER_BY_DATE_DESC,
+      take: FILTER_PREVIEW_LIMIT,
     });
 
-    // Finally, delete the feed itself
-    await prisma.rssFeed.delete({
+    const filter = createArticleFilter(filterRules);
+
+    return {
+      success: true as const,
+      articles: articles.map((article) => ({
+        id: article.id,
+        title: article.title,
+        link: article.link,
+        pubDate: article.pubDate,
+        droppedBy: filter(article),
+      })),
+    };
+  }, "preview feed filter rules").catch(toActionError);
+}
+
+/**
+ * Unsubscribes a user from an RSS feed
+ *
+ * The feed source and its articles are shared with other subscribers.
+ * When the last subscriber leaves, the source is deleted too: stories
+ * other sources also published are handed over to them, the rest are
+ * deleted (see deleteFeedSource).
+ */
+export async function deleteRssFeed(feedId: string) {
+  return wrapDatabaseOperation(async () => {
+    const { subscription } = await requireOwnedFeed(feedId);
+
+    await prisma.subscription.delete({
       where: { id: feedId },
     });
 
-    return { success: true };
-  }, "delete RSS feed");
+    const remainingSubscribers = await prisma.subscription.count({
+      where: { sourceId: subscription.sourceId },
+    });
+    if (remainingSubscribers === 0) {
+      await deleteFeedSource(subscription.sourceId);
+    }
+
+    return { success: true as const };
+  }, "delete RSS feed").catch(toActionError);
 }
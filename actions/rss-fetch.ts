@@ -1,55 +1,124 @@
 "use server";
 
+import { requireOwnedFeed } from "@/lib/auth/authorization";
+import { toActionError } from "@/lib/auth/errors";
+import { getCurrentEntitlements, getCurrentUser } from "@/lib/auth/helpers";
+import { assertCanAddFeed } from "@/lib/auth/plan-limits";
 import { wrapDatabaseOperation } from "@/lib/database/error-handler";
 import { prisma } from "@/lib/prisma";
 import {
-  type ArticleData,
-  fetchAndParseFeed,
-  validateFeedUrl,
-} from "@/lib/rss/parser";
-import { bulkCreateRssArticles } from "./rss-article";
-import { updateFeedLastFetched } from "./rss-feed";
+  attachSourceArticles,
+  countArticlesBySource,
+} from "@/lib/rss/articles";
+import { discoverFeeds } from "@/lib/rss/discovery";
+import {
+  deleteFeedSource,
+  fetchAndStoreSource,
+  getOrCreateFeedSource,
+  updateFeedSourceMetadata,
+} from "@/lib/rss/feed-source";
+import { validateFeedUrl } from "@/lib/rss/parser";
+import { canonicalizeFeedUrl, normalizeRssUrl } from "@/lib/utils/url";
 
 // ============================================
 // RSS FETCH ACTIONS
 // ============================================
 
 /**
- * Validates an RSS URL and creates a new feed with initial article fetch
+ * Finds feeds for a URL entered by the user
+ *
+ * If the URL is already a feed it is returned as-is. If it is a website,
+ * the page's <link rel="alternate"> feeds and common feed paths are
+ * returned so the user can pick one.
+ */
+export async function discoverFeedsFromUrl(url: string) {
+  // Only signed-in users may make the server fetch arbitrary URLs
+  await getCurrentUser();
+
+  return discoverFeeds(normalizeRssUrl(url));
+}
+
+/**
+ * Validates an RSS URL and subscribes the signed-in user to it
+ * Optionally files the feed into a folder (used by OPML import)
+ *
+ * If another user already follows the URL, the new subscription shares
+ * the existing source and its articles right away. Only a URL nobody
+ * has fetched yet is validated and fetched.
+ *
+ * @returns success: false if the user already subscribes to the feed or
+ *   is at the plan's feed limit; otherwise the subscription, with a
+ *   warning if the first fetch failed
  */
-export async function validateAndAddFeed(userId: string, url: string) {
+export async function validateAndAddFeed(
+  url: string,
+  options?: { folder?: string },
+) {
   return wrapDatabaseOperation(async () => {
-    // Validate the RSS feed URL
-    const isValid = await validateFeedUrl(url);
-    if (!isValid) {
-      throw new Error("Invalid RSS feed URL or unable to fetch feed");
+    const user = await getCurrentUser();
+
+    const existingSource = await prisma.feedSource.findUnique({
+      where: { url: canonicalizeFeedUrl(url) },
+    });
+
+    // Checked before the plan limit so a full plan doesn't hide the reason
+    if (existingSource) {
+      const existing = await prisma.subscription.findUnique({
+        where: {
+          userId_sourceId: { userId: user.id, sourceId: existingSource.id },
+        },
+        select: { id: true },
+      });
+      if (existing) {
+        return {
+          success: false as const,
+          error: "You're already subscribed to this feed",
+        };
+      }
     }
 
-    // Create the feed in database
-    const feed = await prisma.rssFeed.create({
+    await assertCanAddFeed(user.id, await getCurrentEntitlements());
+
+    // Validate the RSS feed URL unless it has been fetched before
+    if (!existingSource?.lastFetched) {
+      const isValid = await validateFeedUrl(url);
+      if (!isValid) {
+        throw new Error("Invalid RSS feed URL or unable to fetch feed");
+      }
+    }
+
+    const source = existingSource ?? (await getOrCreateFeedSource(url));
+
+    // Create the user's subscription
+    const feed = await prisma.subscription.create({
       data: {
-        userId,
-        url,
+        userId: user.id,
+        sourceId: source.id,
+        folder: options?.folder,
       },
     });
 
+    // Shared source: everything other subscribers collected is available now
+    if (source.lastFetched) {
+      return {
+        success: true as const,
+        feed,
+        articlesCreated: await countArticlesBySource(source.id),
+        articlesSkipped: 0,
+      };
+    }
+
     // Fetch and store initial articles
     try {
-      const result = await fetchAndStoreFeed(feed.id);
-
-      // Update feed with metadata from RSS
-      await prisma.rssFeed.update({
-        where: { id: feed.id },
-        data: {
-          title: result.metadata.title,
-          description: result.metadata.description,
-          link: result.metadata.link,
-          imageUrl: result.metadata.imageUrl,
-          language: result.metadata.language,
-        },
-      });
+      const result = await fetchAndStoreSource(source.id);
+
+      // Update source with metadata from RSS
+      if (result.metadata) {
+        await updateFeedSourceMetadata(source.id, result.metadata);
+      }
 
       return {
+        success: true as const,
         feed,
         articlesCreated: result.created,
         articlesSkipped: result.skipped,
@@ -58,57 +127,94 @@ export async function validateAndAddFeed(userId: string, url: string) {
       // If initial fetch fails, still return the feed
       console.error("Failed to fetch initial articles:", fetchError);
       return {
+        success: true as const,
         feed,
         articlesCreated: 0,
         articlesSkipped: 0,
-        error: "Feed created but initial fetch failed",
+        warning: "Feed created but initial fetch failed",
       };
     }
-  }, "add RSS feed");
+  }, "add RSS feed").catch(toActionError);
 }
 
 /**
- * Fetches an RSS feed and stores new articles
+ * Points an RSS feed at a new URL, keeping the subscription
+ *
+ * The subscription ID, name, note, folder, tags and filter rules stay the
+ * same, so past newsletters and settings keep working. The new URL is
+ * validated unless it has been fetched before. When nobody else follows
+ * the old URL, its articles are carried over to the new source so the
+ * feed's history isn't lost.
+ *
+ * @returns success: false if the user already subscribes to the new URL
+ * @throws Error if the URL isn't a valid feed
  */
-export async function fetchAndStoreFeed(feedId: string) {
+export async function changeFeedUrl(feedId: string, url: string) {
   return wrapDatabaseOperation(async () => {
-    // Get the feed details
-    const feed = await prisma.rssFeed.findUnique({
+    const { subscription } = await requireOwnedFeed(feedId);
+    const currentSource = await prisma.feedSource.findUniqueOrThrow({
+      where: { id: subscription.sourceId },
+      select: { url: true },
+    });
+
+    const canonicalUrl = canonicalizeFeedUrl(url);
+    if (canonicalUrl === currentSource.url) {
+      return { success: true as const, feed: subscription, changed: false };
+    }
+
+    const existingSource = await prisma.feedSource.findUnique({
+      where: { url: canonicalUrl },
+    });
+
+    if (!existingSource?.lastFetched) {
+      const isValid = await validateFeedUrl(url);
+      if (!isValid) {
+        throw new Error("Invalid RSS feed URL or unable to fetch feed");
+      }
+    }
+
+    const source = existingSource ?? (await getOrCreateFeedSource(url));
+
+    const duplicate = await prisma.subscription.findUnique({
+      where: {
+        userId_sourceId: { userId: subscription.userId, sourceId: source.id },
+      },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return {
+        success: false as const,
+        error: "You're already subscribed to this feed",
+      };
+    }
+
+    const feed = await prisma.subscription.update({
       where: { id: feedId },
+      data: { sourceId: source.id },
     });
 
-    if (!feed) {
-      throw new Error(`Feed with ID ${feedId} not found`);
+    // Carry the history over unless the old URL is still someone's feed;
+    // the old source then has no subscribers left and is removed
+    const remainingSubscribers = await prisma.subscription.count({
+      where: { sourceId: subscription.sourceId },
+    });
+    if (remainingSubscribers === 0) {
+      await attachSourceArticles(subscription.sourceId, source.id);
+      await deleteFeedSource(subscription.sourceId);
+    }
+
+    if (!source.lastFetched) {
+      try {
+        const result = await fetchAndStoreSource(source.id);
+        if (result.metadata) {
+          await updateFeedSourceMetadata(source.id, result.metadata);
+        }
+      } catch (fetchError) {
+        // The source is retried by the scheduled refresh
+        console.error("Failed to fetch moved feed:", fetchError);
+      }
     }
 
-    // Fetch and parse the RSS feed
-    const { metadata, articles } = await fetchAndParseFeed(feed.url, feedId);
-
-    // Convert ArticleData to format expected by bulkCreateRssArticles
-    const articlesToCreate = articles.map((article: ArticleData) => ({
-      feedId: feed.id,
-      guid: article.guid,
-      title: article.title,
-      link: article.link,
-      content: article.content,
-      summary: article.summary,
-      pubDate: article.pubDate,
-      author: article.author,
-      categories: article.categories,
-      imageUrl: article.imageUrl,
-    }));
-
-    // Store articles with automatic deduplication
-    const result = await bulkCreateRssArticles(articlesToCreate);
-
-    // Update the feed's lastFetched timestamp
-    await updateFeedLastFetched(feedId);
-
-    return {
-      metadata,
-      created: result.created,
-      skipped: result.skipped,
-      errors: result.errors,
-    };
-  }, "fetch feed");
+    return { success: true as const, feed, changed: true };
+  }, "change feed URL").catch(toActionError);
 }
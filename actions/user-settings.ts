@@ -1,6 +1,9 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
+import { getModelsForPlan } from "@/lib/ai/models";
+import { requireCurrentUser } from "@/lib/auth/authorization";
+import { getCurrentEntitlements } from "@/lib/auth/helpers";
 import { prisma } from "@/lib/prisma";
 
 // ============================================
@@ -28,6 +31,9 @@ export interface UserSettingsInput {
   customFooter?: string | null;
   senderName?: string | null;
   senderEmail?: string | null;
+
+  // AI
+  preferredModel?: string | null;
 }
 
 /**
@@ -57,8 +63,11 @@ export async function getCurrentUserSettings() {
 
 /**
  * Fetches user settings by database user ID
+ * The ID must be the authenticated user's
  */
 export async function getUserSettingsByUserId(userId: string) {
+  await requireCurrentUser(userId);
+
   try {
     const settings = await prisma.userSettings.findUnique({
       where: {
@@ -75,10 +84,34 @@ export async function getUserSettingsByUserId(userId: string) {
 
 /**
  * Creates or updates user settings for the authenticated user
+ * Requires a plan with customSettings; the preferred model must be one
+ * the plan allows
+ *
+ * @returns success: false with the reason if the plan doesn't allow it
  */
 export async function upsertUserSettings(
   data: UserSettingsInput
 ) {
+  const entitlements = await getCurrentEntitlements();
+  if (!entitlements.customSettings) {
+    return {
+      success: false as const,
+      error: "Pro plan required to save settings",
+    };
+  }
+
+  if (
+    data.preferredModel &&
+    !getModelsForPlan(entitlements).some(
+      (model) => model.id === data.preferredModel,
+    )
+  ) {
+    return {
+      success: false as const,
+      error: "This model isn't available on your plan",
+    };
+  }
+
   try {
     const { userId } = await auth();
     if (!userId) {
@@ -121,6 +154,7 @@ export async function upsertUserSettings(
           customFooter: data.customFooter,
           senderName: data.senderName,
           senderEmail: data.senderEmail,
+          preferredModel: data.preferredModel,
           updatedAt: new Date(),
         },
       });
@@ -141,11 +175,12 @@ export async function upsertUserSettings(
           customFooter: data.customFooter,
           senderName: data.senderName,
           senderEmail: data.senderEmail,
+          preferredModel: data.preferredModel,
         },
       });
     }
 
-    return settings;
+    return { success: true as const, settings };
   } catch (error) {
     console.error("Failed to upsert user settings:", error);
     throw new Error("Failed to save user settings");
@@ -1,5 +1,7 @@
 "use server";
 
+import { auth } from "@clerk/nextjs/server";
+import { ForbiddenError, UnauthenticatedError } from "@/lib/auth/errors";
 import { wrapDatabaseOperation } from "@/lib/database/error-handler";
 import { prisma } from "@/lib/prisma";
 
@@ -7,14 +9,32 @@ import { prisma } from "@/lib/prisma";
 // USER ACTIONS
 // ============================================
 
+/**
+ * Ensures a Clerk user ID belongs to the current session
+ * Client components call these actions, so the ID they pass can't be trusted.
+ */
+async function requireSessionClerkId(clerkUserId: string) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new UnauthenticatedError();
+  }
+
+  if (userId !== clerkUserId) {
+    throw new ForbiddenError("Cannot access another user's account");
+  }
+}
+
 /**
  * Fetches a user by their Clerk user ID
  *
- * @param clerkUserId - The Clerk authentication ID
+ * @param clerkUserId - The Clerk authentication ID (must be the signed-in user)
  * @returns User record or null if not found
  */
 export async function getUserByClerkId(clerkUserId: string) {
   return wrapDatabaseOperation(async () => {
+    await requireSessionClerkId(clerkUserId);
+
     return await prisma.user.findUnique({
       where: { clerkUserId },
     });
@@ -33,6 +53,8 @@ export async function getUserByClerkId(clerkUserId: string) {
  */
 export async function upsertUserFromClerk(clerkUserId: string) {
   return wrapDatabaseOperation(async () => {
+    await requireSessionClerkId(clerkUserId);
+
     // Try to find existing user
     const existingUser = await prisma.user.findUnique({
       where: { clerkUserId },
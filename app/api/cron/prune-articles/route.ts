@@ -0,0 +1,49 @@
+import type { NextRequest } from "next/server";
+import { pruneArticles } from "@/lib/rss/retention";
+
+export const maxDuration = 300; // 5 minutes for Vercel Pro
+
+/**
+ * GET /api/cron/prune-articles
+ *
+ * Scheduled article retention job: deletes articles older than the
+ * retention period (except those saved newsletters were built from) and
+ * compacts older articles down to their summary.
+ * Meant to be called by a cron job (see vercel.json) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Query parameters:
+ * - dryRun=true: report what would be removed without changing anything
+ *
+ * @returns Report of deleted, kept and compacted articles
+ */
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return Response.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 },
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "true";
+    const result = await pruneArticles({ dryRun });
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error in prune-articles cron:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return Response.json(
+      { error: `Failed to prune articles: ${errorMessage}` },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextRequest } from "next/server";
+import { refreshStaleFeeds } from "@/lib/rss/feed-refresh";
+
+export const maxDuration = 300; // 5 minutes for Vercel Pro
+
+/**
+ * GET /api/cron/refresh-feeds
+ *
+ * Scheduled background refresh of every stale feed URL.
+ * Meant to be called by a cron job (see vercel.json) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @returns Counts of stale, refreshed and failed feeds
+ */
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return Response.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 500 },
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshStaleFeeds();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error in refresh-feeds cron:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return Response.json(
+      { error: `Failed to refresh feeds: ${errorMessage}` },
+      { status: 500 },
+    );
+  }
+}
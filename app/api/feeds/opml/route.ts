@@ -0,0 +1,46 @@
+import { getRssFeedsByUserId } from "@/actions/rss-feed";
+import { getErrorStatus } from "@/lib/auth/errors";
+import { getCurrentUser } from "@/lib/auth/helpers";
+import { buildOpml } from "@/lib/rss/opml";
+
+/**
+ * GET /api/feeds/opml
+ *
+ * Exports the authenticated user's RSS feeds as an OPML 2.0 file.
+ * Feeds are grouped into outline folders by their folder name.
+ *
+ * @returns OPML file download
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    const feeds = await getRssFeedsByUserId(user.id);
+
+    const opml = buildOpml(
+      feeds.map((feed) => ({
+        url: feed.url,
+        title: feed.title ?? undefined,
+        folder: feed.folder ?? undefined,
+        link: feed.link ?? undefined,
+      })),
+      "Newsletter AI feeds",
+    );
+
+    return new Response(opml, {
+      headers: {
+        "Content-Type": "text/x-opml; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="feeds.opml"',
+      },
+    });
+  } catch (error) {
+    console.error("Error in OPML export:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return Response.json(
+      { error: `Failed to export feeds: ${errorMessage}` },
+      { status: getErrorStatus(error) },
+    );
+  }
+}
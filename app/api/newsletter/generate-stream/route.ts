@@ -1,13 +1,23 @@
-import { openai } from "@ai-sdk/openai";
 import { streamObject } from "ai";
 import type { NextRequest } from "next/server";
 import { z } from "zod";
 import { getUserSettingsByUserId } from "@/actions/user-settings";
-import { getCurrentUser } from "@/lib/auth/helpers";
+import { resolveModelId } from "@/lib/ai/models";
+import { getLanguageModel } from "@/lib/ai/registry";
+import { assertFeedsOwnedBy } from "@/lib/auth/authorization";
+import { getErrorStatus } from "@/lib/auth/errors";
+import { getCurrentEntitlements, getCurrentUser } from "@/lib/auth/helpers";
+import { assertFeedsActive } from "@/lib/auth/plan-limits";
 import {
   buildArticleSummaries,
   buildNewsletterPrompt,
 } from "@/lib/newsletter/prompt-builder";
+import {
+  assertGenerationQuota,
+  recordGenerationTokens,
+  releaseGeneration,
+  reserveGeneration,
+} from "@/lib/newsletter/usage";
 import { prepareFeedsAndArticles } from "@/lib/rss/feed-refresh";
 
 export const maxDuration = 300; // 5 minutes for Vercel Pro
@@ -51,12 +61,21 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get authenticated user and settings
+    // Get authenticated user, check feed ownership and plan limits
     const user = await getCurrentUser();
-    const settings = await getUserSettingsByUserId(user.id);
+    const entitlements = await getCurrentEntitlements();
+    await assertFeedsOwnedBy(user.id, feedIds);
+    await assertFeedsActive(user.id, feedIds, entitlements);
+    await assertGenerationQuota(user.id, entitlements);
+
+    // Saved settings only apply on plans with customSettings
+    const settings = entitlements.customSettings
+      ? await getUserSettingsByUserId(user.id)
+      : null;
 
     // Fetch and prepare articles
     const articles = await prepareFeedsAndArticles({
+      userId: user.id,
       feedIds,
       startDate: new Date(startDate),
       endDate: new Date(endDate),
@@ -73,13 +92,26 @@ export async function POST(req: NextRequest) {
       settings,
     });
 
-    // Stream newsletter generation with AI SDK
+    // Count the generation against the monthly quota
+    const periodStart = await reserveGeneration(user.id, entitlements);
+
+    // Stream newsletter generation with AI SDK, metering tokens when done
     const result = streamObject({
-      model: openai("gpt-4o"),
+      model: getLanguageModel(
+        resolveModelId(settings?.preferredModel, entitlements),
+      ),
       schema: NewsletterSchema,
       prompt,
-      onFinish: async () => {
-        // Optional: Add any post-generation logic here
+      onFinish: async ({ usage }) => {
+        await recordGenerationTokens(user.id, periodStart, usage).catch(
+          (error) => console.error("Failed to record generation usage:", error),
+        );
+      },
+      onError: async ({ error }) => {
+        console.error("Newsletter generation failed:", error);
+        await releaseGeneration(user.id, periodStart).catch((releaseError) =>
+          console.error("Failed to release generation:", releaseError),
+        );
       },
     });
 
@@ -93,7 +125,7 @@ export async function POST(req: NextRequest) {
 
     return Response.json(
       { error: `Failed to generate newsletter: ${errorMessage}` },
-      { status: 500 },
+      { status: getErrorStatus(error) },
     );
   }
 }
@@ -1,7 +1,12 @@
 import type { NextRequest } from "next/server";
-import { getArticlesByFeedsAndDateRange } from "@/actions/rss-article";
-import { getCurrentUser } from "@/lib/auth/helpers";
-import { getFeedsToRefresh } from "@/lib/rss/feed-refresh";
+import { assertFeedsOwnedBy } from "@/lib/auth/authorization";
+import { getErrorStatus } from "@/lib/auth/errors";
+import { getCurrentEntitlements, getCurrentUser } from "@/lib/auth/helpers";
+import { assertFeedsActive } from "@/lib/auth/plan-limits";
+import { assertGenerationQuota } from "@/lib/newsletter/usage";
+import { getArticlesBySourcesAndDateRange } from "@/lib/rss/articles";
+import { getSourcesToRefresh } from "@/lib/rss/feed-refresh";
+import { getSubscriptionSources } from "@/lib/rss/subscriptions";
 
 export const maxDuration = 60;
 
@@ -33,18 +38,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Verify user authentication
-    await getCurrentUser();
+    // Verify user authentication, feed ownership, plan limits and quota
+    const user = await getCurrentUser();
+    const entitlements = await getCurrentEntitlements();
+    await assertFeedsOwnedBy(user.id, feedIds);
+    await assertFeedsActive(user.id, feedIds, entitlements);
+    await assertGenerationQuota(user.id, entitlements);
 
-    // Check which feeds need refreshing
-    const feedsToRefresh = await getFeedsToRefresh(feedIds);
+    // Check which feed sources need refreshing
+    const { sourceIds, filterRulesBySource } = await getSubscriptionSources(
+      user.id,
+      feedIds,
+    );
+    const feedsToRefresh = await getSourcesToRefresh(sourceIds);
 
     // Get article count without fetching full content
-    const articles = await getArticlesByFeedsAndDateRange(
-      feedIds,
+    const articles = await getArticlesBySourcesAndDateRange(
+      sourceIds,
       new Date(startDate),
       new Date(endDate),
       100, // Same limit as generation
+      filterRulesBySource,
     );
 
     return Response.json({
@@ -59,7 +73,7 @@ export async function POST(req: NextRequest) {
 
     return Response.json(
       { error: `Failed to prepare newsletter: ${errorMessage}` },
-      { status: 500 },
+      { status: getErrorStatus(error) },
     );
   }
 }
@@ -9,6 +9,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { getEntitlements, resolvePlan } from "@/lib/auth/entitlements";
 
 interface PageProps {
   params: Promise<{
@@ -39,9 +40,9 @@ export default async function NewsletterDetailPage({ params }: PageProps) {
     );
   }
 
-  const isPro = await has({ plan: "pro" });
+  const hasHistory = getEntitlements(resolvePlan(has)).maxSavedNewsletters > 0;
 
-  if (!isPro) {
+  if (!hasHistory) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 dark:from-black dark:to-gray-950">
         <div className="container mx-auto py-12 px-6 lg:px-8">
@@ -12,6 +12,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { getEntitlements, resolvePlan } from "@/lib/auth/entitlements";
 
 export default async function HistoryPage() {
   const { userId, has } = await auth();
@@ -35,9 +36,9 @@ export default async function HistoryPage() {
     );
   }
 
-  const isPro = await has({ plan: "pro" });
+  const hasHistory = getEntitlements(resolvePlan(has)).maxSavedNewsletters > 0;
   const user = await upsertUserFromClerk(userId);
-  const newsletters = isPro ? await getNewslettersByUserId(user.id) : [];
+  const newsletters = hasHistory ? await getNewslettersByUserId(user.id) : [];
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 dark:from-black dark:to-gray-950">
@@ -50,7 +51,7 @@ export default async function HistoryPage() {
         />
 
         {/* Free User Upgrade Prompt */}
-        {!isPro && (
+        {!hasHistory && (
           <Card className="border-2 border-blue-600 dark:border-blue-500 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/30 dark:to-purple-950/30 transition-all hover:shadow-lg">
             <CardHeader>
               <div className="flex items-center gap-3">
@@ -118,7 +119,7 @@ export default async function HistoryPage() {
         )}
 
         {/* Newsletter List */}
-        {isPro && <NewsletterHistoryList newsletters={newsletters} />}
+        {hasHistory && <NewsletterHistoryList newsletters={newsletters} />}
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import { Sparkles } from "lucide-react";
 import { NewsletterGenerator } from "@/components/dashboard/newsletter-generator";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { RssFeedManager } from "@/components/dashboard/rss-feed-manager";
+import { UsageQuotaCard } from "@/components/dashboard/usage-quota-card";
 
 async function Dashboard() {
   return (
@@ -21,8 +22,9 @@ async function Dashboard() {
             <RssFeedManager />
           </div>
 
-          {/* Right Column - Newsletter Generator */}
-          <div>
+          {/* Right Column - Usage Quota + Newsletter Generator */}
+          <div className="space-y-8">
+            <UsageQuotaCard />
             <NewsletterGenerator />
           </div>
         </div>
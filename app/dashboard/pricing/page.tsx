@@ -8,11 +8,18 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  describeEntitlements,
+  getEntitlements,
+  PLAN_ENTITLEMENTS,
+  resolvePlan,
+} from "@/lib/auth/entitlements";
 
 export default async function PricingPage() {
   const { has } = await auth();
 
-  const isPro = await has({ plan: "pro" });
+  const entitlements = getEntitlements(resolvePlan(has));
+  const isPro = entitlements.plan === "pro";
 
   return (
     <div className="container mx-auto py-8 px-4 space-y-8">
@@ -40,8 +47,23 @@ export default async function PricingPage() {
             <p className="text-sm text-muted-foreground">
               {isPro
                 ? "To manage your subscription, update payment methods, or cancel your plan, click on your current plan card or contact support."
-                : "Upgrade to Pro to unlock unlimited RSS feeds, save your newsletter history, and access custom settings. Click on the Pro plan card to get started."}
+                : "Upgrade to Pro to unlock more feeds, generations and features. Click on the Pro plan card to get started."}
             </p>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {Object.values(PLAN_ENTITLEMENTS).map((plan) => (
+                <div key={plan.plan} className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {plan.name}
+                    {plan.plan === entitlements.plan && " (current)"}
+                  </p>
+                  <ul className="text-sm text-muted-foreground space-y-0.5">
+                    {describeEntitlements(plan).map((feature) => (
+                      <li key={feature}>{feature}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
             {isPro && (
               <div className="flex items-start gap-3 p-4 bg-muted rounded-lg">
                 <Crown
@@ -11,6 +11,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { DEFAULT_MODEL_ID, getModelsForPlan } from "@/lib/ai/models";
+import { getEntitlements, resolvePlan } from "@/lib/auth/entitlements";
 
 export default async function SettingsPage() {
   const { userId, has } = await auth();
@@ -34,8 +36,9 @@ export default async function SettingsPage() {
     );
   }
 
-  const isPro = await has({ plan: "pro" });
-  const settings = isPro ? await getCurrentUserSettings() : null;
+  const entitlements = getEntitlements(resolvePlan(has));
+  const { customSettings } = entitlements;
+  const settings = customSettings ? await getCurrentUserSettings() : null;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 dark:from-black dark:to-gray-950">
@@ -48,7 +51,7 @@ export default async function SettingsPage() {
         />
 
         {/* Free User Upgrade Prompt */}
-        {!isPro && (
+        {!customSettings && (
           <Card className="border-2 border-blue-600 dark:border-blue-500 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-950/30 dark:to-purple-950/30 transition-all hover:shadow-lg">
             <CardHeader>
               <div className="flex items-center gap-3">
@@ -115,7 +118,13 @@ export default async function SettingsPage() {
         )}
 
         {/* Settings Form */}
-        {isPro && <SettingsForm initialSettings={settings} />}
+        {customSettings && (
+          <SettingsForm
+            initialSettings={settings}
+            modelOptions={getModelsForPlan(entitlements)}
+            defaultModelId={DEFAULT_MODEL_ID}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,12 +1,10 @@
 "use client";
 
-import { useAuth } from "@clerk/nextjs";
-import { Plus, RefreshCw } from "lucide-react";
+import { Check, Plus, RefreshCw, Rss } from "lucide-react";
 import { useRouter } from "next/navigation";
 import * as React from "react";
 import { toast } from "sonner";
-import { validateAndAddFeed } from "@/actions/rss-fetch";
-import { upsertUserFromClerk } from "@/actions/user";
+import { discoverFeedsFromUrl, validateAndAddFeed } from "@/actions/rss-fetch";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -19,25 +17,66 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import type { FeedCandidate } from "@/lib/rss/types";
+import { cn } from "@/lib/utils";
 
 interface AddFeedDialogProps {
   currentFeedCount: number;
   feedLimit: number;
-  isPro: boolean;
+  /** Shown when the plan's feed limit is reached */
+  limitMessage: string;
   trigger?: React.ReactNode;
 }
 
 export function AddFeedDialog({
   currentFeedCount,
   feedLimit,
-  isPro,
+  limitMessage,
   trigger,
 }: AddFeedDialogProps) {
-  const { userId } = useAuth();
   const router = useRouter();
   const [isOpen, setIsOpen] = React.useState(false);
   const [newFeedUrl, setNewFeedUrl] = React.useState("");
   const [isAdding, setIsAdding] = React.useState(false);
+  const [candidates, setCandidates] = React.useState<FeedCandidate[]>([]);
+  const [selectedUrl, setSelectedUrl] = React.useState<string | null>(null);
+
+  const resetState = () => {
+    setNewFeedUrl("");
+    setCandidates([]);
+    setSelectedUrl(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      resetState();
+    }
+  };
+
+  /**
+   * Validates and stores a feed URL, then closes the dialog
+   */
+  const addFeed = async (feedUrl: string) => {
+    const result = await validateAndAddFeed(feedUrl);
+
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+
+    if (result.warning) {
+      toast.warning(`Feed added but: ${result.warning}`);
+    } else {
+      toast.success(
+        `Feed added successfully! ${result.articlesCreated} articles imported.`,
+      );
+    }
+
+    resetState();
+    setIsOpen(false);
+    router.refresh(); // Refresh server component
+  };
 
   const handleAddFeed = async () => {
     if (!newFeedUrl.trim()) {
@@ -50,32 +89,32 @@ export function AddFeedDialog({
 
       // Check feed limit
       if (currentFeedCount >= feedLimit) {
-        toast.error(
-          isPro
-            ? "Feed limit reached"
-            : "Starter plan limited to 3 feeds. Upgrade to Pro for unlimited feeds.",
-        );
+        toast.error(limitMessage);
         return;
       }
 
-      if (!userId) {
-        throw new Error("Not authenticated");
+      // A candidate was picked from a previous discovery
+      if (selectedUrl) {
+        await addFeed(selectedUrl);
+        return;
       }
 
-      const user = await upsertUserFromClerk(userId);
-      const result = await validateAndAddFeed(user.id, newFeedUrl.trim());
+      // The URL may be a website rather than a feed - look for feeds on it
+      const discovery = await discoverFeedsFromUrl(newFeedUrl.trim());
 
-      if (result.error) {
-        toast.warning(`Feed added but: ${result.error}`);
-      } else {
-        toast.success(
-          `Feed added successfully! ${result.articlesCreated} articles imported.`,
-        );
+      if (discovery.isFeed) {
+        await addFeed(discovery.candidates[0].url);
+        return;
       }
 
-      setNewFeedUrl("");
-      setIsOpen(false);
-      router.refresh(); // Refresh server component
+      if (discovery.candidates.length === 0) {
+        toast.error("No RSS, Atom or JSON feeds found at this URL");
+        return;
+      }
+
+      // Let the user pick which of the discovered feeds to add
+      setCandidates(discovery.candidates);
+      setSelectedUrl(discovery.candidates[0].url);
     } catch (error) {
       console.error("Failed to add feed:", error);
       toast.error(
@@ -87,7 +126,7 @@ export function AddFeedDialog({
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <Button size="sm">
@@ -100,8 +139,9 @@ export function AddFeedDialog({
         <DialogHeader>
           <DialogTitle>Add RSS Feed</DialogTitle>
           <DialogDescription>
-            Enter the URL of the RSS feed you want to add. We'll automatically
-            fetch and validate it. The https:// prefix is optional.
+            Enter the URL of the RSS feed or website you want to add. We'll
+            automatically find, fetch and validate the feed. The https:// prefix
+            is optional.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -112,7 +152,11 @@ export function AddFeedDialog({
               type="text"
               placeholder="example.com/feed.xml or https://example.com/feed.xml"
               value={newFeedUrl}
-              onChange={(e) => setNewFeedUrl(e.target.value)}
+              onChange={(e) => {
+                setNewFeedUrl(e.target.value);
+                setCandidates([]);
+                setSelectedUrl(null);
+              }}
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
                   handleAddFeed();
@@ -120,11 +164,42 @@ export function AddFeedDialog({
               }}
             />
           </div>
+          {candidates.length > 0 && (
+            <div className="grid gap-2">
+              <Label>Feeds found on this website</Label>
+              <div className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+                {candidates.map((candidate) => (
+                  <button
+                    key={candidate.url}
+                    type="button"
+                    onClick={() => setSelectedUrl(candidate.url)}
+                    className={cn(
+                      "flex w-full items-start gap-3 p-3 text-left transition-colors hover:bg-accent/50",
+                      selectedUrl === candidate.url && "bg-accent",
+                    )}
+                  >
+                    <Rss className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium truncate">
+                        {candidate.title || candidate.url}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {candidate.format} · {candidate.url}
+                      </div>
+                    </div>
+                    {selectedUrl === candidate.url && (
+                      <Check className="h-4 w-4 shrink-0 text-blue-600" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button
             variant="outline"
-            onClick={() => setIsOpen(false)}
+            onClick={() => handleOpenChange(false)}
             disabled={isAdding}
           >
             Cancel
@@ -135,6 +210,8 @@ export function AddFeedDialog({
                 <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
                 Adding...
               </>
+            ) : candidates.length > 0 ? (
+              "Add Selected Feed"
             ) : (
               "Add Feed"
             )}
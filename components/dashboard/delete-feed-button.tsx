@@ -24,7 +24,12 @@ export function DeleteFeedButton({ feedId, feedTitle }: DeleteFeedButtonProps) {
     }
 
     try {
-      await deleteRssFeed(feedId);
+      const result = await deleteRssFeed(feedId);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
       toast.success("Feed deleted successfully");
       router.refresh(); // Refresh server component
     } catch (error) {
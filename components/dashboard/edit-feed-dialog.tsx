@@ -0,0 +1,171 @@
+"use client";
+
+import { Pencil, RefreshCw } from "lucide-react";
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { toast } from "sonner";
+import { updateFeedDetails } from "@/actions/rss-feed";
+import { changeFeedUrl } from "@/actions/rss-fetch";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface EditFeedDialogProps {
+  feedId: string;
+  url: string;
+  /** The source's own title, shown when no custom name is set */
+  sourceTitle: string | null;
+  customTitle: string | null;
+  note: string | null;
+}
+
+export function EditFeedDialog({
+  feedId,
+  url,
+  sourceTitle,
+  customTitle,
+  note,
+}: EditFeedDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [titleInput, setTitleInput] = React.useState("");
+  const [urlInput, setUrlInput] = React.useState("");
+  const [noteInput, setNoteInput] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setTitleInput(customTitle ?? "");
+      setUrlInput(url);
+      setNoteInput(note ?? "");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!urlInput.trim()) {
+      toast.error("Please enter a valid RSS feed URL");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const updated = await updateFeedDetails(feedId, {
+        customTitle: titleInput,
+        note: noteInput,
+      });
+      if (!updated.success) {
+        toast.error(updated.error);
+        return;
+      }
+
+      let moved = false;
+      if (urlInput.trim() !== url) {
+        const result = await changeFeedUrl(feedId, urlInput.trim());
+        if (!result.success) {
+          toast.error(result.error);
+          return;
+        }
+        moved = result.changed;
+      }
+
+      toast.success(moved ? "Feed moved to the new URL" : "Feed updated");
+      setIsOpen(false);
+      router.refresh(); // Refresh server component
+    } catch (error) {
+      console.error("Failed to update feed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update feed",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Feed</DialogTitle>
+          <DialogDescription>
+            Rename the feed, move it to a new URL, or tell the AI how to treat
+            it. Past newsletters and feed settings are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor={`title-${feedId}`}>Name</Label>
+            <Input
+              id={`title-${feedId}`}
+              placeholder={sourceTitle || "Untitled Feed"}
+              value={titleInput}
+              onChange={(e) => setTitleInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Used in the dashboard and as the source name in newsletters. Leave
+              empty to use the feed&apos;s own title.
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={`url-${feedId}`}>Feed URL</Label>
+            <Input
+              id={`url-${feedId}`}
+              type="url"
+              value={urlInput}
+              onChange={(e) => setUrlInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              A new URL is checked before the feed is moved.
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={`note-${feedId}`}>Note for the AI</Label>
+            <Textarea
+              id={`note-${feedId}`}
+              placeholder="Official vendor blog, treat as primary source"
+              value={noteInput}
+              onChange={(e) => setNoteInput(e.target.value)}
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setIsOpen(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { Eye, Filter, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { toast } from "sonner";
+import {
+  previewFeedFilterRules,
+  updateFeedFilterRules,
+} from "@/actions/rss-feed";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FeedFilterRule } from "@/lib/rss/types";
+
+interface FeedFiltersDialogProps {
+  feedId: string;
+  feedTitle: string;
+  rules: FeedFilterRule[];
+}
+
+/**
+ * A rule being edited, with a stable key for React
+ */
+interface EditableRule extends FeedFilterRule {
+  key: string;
+}
+
+type PreviewArticle = Extract<
+  Awaited<ReturnType<typeof previewFeedFilterRules>>,
+  { success: true }
+>["articles"][number];
+
+const FIELD_LABELS: Record<FeedFilterRule["field"], string> = {
+  title: "Title",
+  categories: "Categories",
+  author: "Author",
+  content: "Content",
+};
+
+function toEditable(rule: FeedFilterRule): EditableRule {
+  return { ...rule, key: crypto.randomUUID() };
+}
+
+function toRules(rules: EditableRule[]): FeedFilterRule[] {
+  return rules.map(({ key: _key, ...rule }) => rule);
+}
+
+export function FeedFiltersDialog({
+  feedId,
+  feedTitle,
+  rules: savedRules,
+}: FeedFiltersDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [rules, setRules] = React.useState<EditableRule[]>([]);
+  const [preview, setPreview] = React.useState<PreviewArticle[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setRules(savedRules.map(toEditable));
+      setPreview(null);
+    }
+  };
+
+  const updateRule = (key: string, changes: Partial<FeedFilterRule>) => {
+    setRules((current) =>
+      current.map((rule) =>
+        rule.key === key ? { ...rule, ...changes } : rule,
+      ),
+    );
+    setPreview(null);
+  };
+
+  const addRule = () => {
+    setRules((current) => [
+      ...current,
+      toEditable({
+        action: "exclude",
+        field: "title",
+        matchType: "keyword",
+        pattern: "",
+      }),
+    ]);
+    setPreview(null);
+  };
+
+  const removeRule = (key: string) => {
+    setRules((current) => current.filter((rule) => rule.key !== key));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsPreviewing(true);
+      const result = await previewFeedFilterRules(feedId, toRules(rules));
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      setPreview(result.articles);
+    } catch (error) {
+      console.error("Failed to preview filter rules:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to preview rules",
+      );
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const result = await updateFeedFilterRules(feedId, toRules(rules));
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Filter rules saved");
+      setIsOpen(false);
+      router.refresh(); // Refresh server component
+    } catch (error) {
+      console.error("Failed to save filter rules:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save filter rules",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dropped = preview?.filter((article) => article.droppedBy.length > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 whitespace-nowrap hover:text-foreground transition-colors"
+        >
+          <Filter className="h-3 w-3" />
+          {savedRules.length > 0
+            ? `${savedRules.length} filter${savedRules.length !== 1 ? "s" : ""}`
+            : "Filters"}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Filter Rules</DialogTitle>
+          <DialogDescription>
+            Choose which articles from {feedTitle} go into newsletters. With
+            include rules, an article must match at least one of them; any
+            article matching an exclude rule is dropped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          {rules.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No rules yet - every article is used.
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {rules.map((rule, index) => {
+                const dropCount =
+                  dropped?.filter((article) =>
+                    article.droppedBy.includes(index),
+                  ).length ?? 0;
+
+                return (
+                  <div key={rule.key} className="flex items-center gap-2">
+                    <Select
+                      value={rule.action}
+                      onValueChange={(action) =>
+                        updateRule(rule.key, {
+                          action: action as FeedFilterRule["action"],
+                        })
+                      }
+                    >
+                      <SelectTrigger size="sm" className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="include">Include</SelectItem>
+                        <SelectItem value="exclude">Exclude</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={rule.field}
+                      onValueChange={(field) =>
+                        updateRule(rule.key, {
+                          field: field as FeedFilterRule["field"],
+                        })
+                      }
+                    >
+                      <SelectTrigger size="sm" className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(FIELD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={rule.matchType}
+                      onValueChange={(matchType) =>
+                        updateRule(rule.key, {
+                          matchType: matchType as FeedFilterRule["matchType"],
+                        })
+                      }
+                    >
+                      <SelectTrigger size="sm" className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="keyword">Keyword</SelectItem>
+                        <SelectItem value="regex">Regex</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={rule.pattern}
+                      placeholder={
+                        rule.matchType === "regex" ? "^Sponsored:" : "hiring"
+                      }
+                      onChange={(e) =>
+                        updateRule(rule.key, { pattern: e.target.value })
+                      }
+                      className="h-8 min-w-0 flex-1"
+                    />
+                    {preview && (
+                      <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+                        drops {dropCount}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeRule(rule.key)}
+                      className="h-8 w-8 shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={addRule}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={isPreviewing || rules.length === 0}
+            >
+              {isPreviewing ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4 mr-2" />
+              )}
+              Preview
+            </Button>
+          </div>
+          {preview && dropped && (
+            <div className="grid gap-2">
+              <div className="text-sm text-muted-foreground">
+                {dropped.length} of the {preview.length} most recent articles
+                would be dropped
+              </div>
+              {dropped.length > 0 && (
+                <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+                  {dropped.map((article) => (
+                    <div key={article.id} className="p-3">
+                      <div className="text-sm font-medium truncate">
+                        {article.title}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {new Date(article.pubDate).toLocaleDateString()} ·
+                        dropped by rule{" "}
+                        {article.droppedBy.map((index) => index + 1).join(", ")}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setIsOpen(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Rules"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
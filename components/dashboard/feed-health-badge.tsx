@@ -0,0 +1,48 @@
+import { Badge } from "@/components/ui/badge";
+import { type FeedHealthStatus, getFeedHealth } from "@/lib/rss/feed-health";
+import { cn } from "@/lib/utils";
+
+const HEALTH_LABELS: Record<FeedHealthStatus, string> = {
+  healthy: "Healthy",
+  degraded: "Degraded",
+  broken: "Broken",
+};
+
+const HEALTH_STYLES: Record<FeedHealthStatus, string> = {
+  healthy:
+    "border-green-200 bg-green-50 text-green-700 dark:border-green-900 dark:bg-green-950 dark:text-green-400",
+  degraded:
+    "border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-400",
+  broken:
+    "border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-400",
+};
+
+interface FeedHealthBadgeProps {
+  consecutiveFailures: number;
+  lastError?: string | null;
+}
+
+export function FeedHealthBadge({
+  consecutiveFailures,
+  lastError,
+}: FeedHealthBadgeProps) {
+  const status = getFeedHealth(consecutiveFailures);
+
+  return (
+    <Badge
+      variant="outline"
+      className={HEALTH_STYLES[status]}
+      title={status === "healthy" ? undefined : (lastError ?? undefined)}
+    >
+      <span
+        className={cn(
+          "h-1.5 w-1.5 rounded-full",
+          status === "healthy" && "bg-green-500",
+          status === "degraded" && "bg-amber-500",
+          status === "broken" && "bg-red-500",
+        )}
+      />
+      {HEALTH_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { Folder, RefreshCw, Tag } from "lucide-react";
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { toast } from "sonner";
+import { updateFeedOrganization } from "@/actions/rss-feed";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface FeedOrganizeDialogProps {
+  feedId: string;
+  feedTitle: string;
+  folder: string | null;
+  tags: string[];
+  /** Folders used by the user's other feeds, offered as suggestions */
+  existingFolders: string[];
+}
+
+export function FeedOrganizeDialog({
+  feedId,
+  feedTitle,
+  folder,
+  tags,
+  existingFolders,
+}: FeedOrganizeDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [folderInput, setFolderInput] = React.useState("");
+  const [tagsInput, setTagsInput] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setFolderInput(folder ?? "");
+      setTagsInput(tags.join(", "));
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const result = await updateFeedOrganization(feedId, {
+        folder: folderInput,
+        tags: tagsInput.split(","),
+      });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Feed updated");
+      setIsOpen(false);
+      router.refresh(); // Refresh server component
+    } catch (error) {
+      console.error("Failed to update feed folder and tags:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update feed",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-x-3 gap-y-1 flex-wrap hover:text-foreground transition-colors"
+        >
+          <span className="inline-flex items-center gap-1 whitespace-nowrap">
+            <Folder className="h-3 w-3" />
+            {folder || "No folder"}
+          </span>
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 whitespace-nowrap"
+            >
+              <Tag className="h-3 w-3" />
+              {tag}
+            </span>
+          ))}
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Organize Feed</DialogTitle>
+          <DialogDescription>
+            Put {feedTitle} in a folder and tag it, so you can select feeds by
+            group when generating a newsletter.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor={`folder-${feedId}`}>Folder</Label>
+            <Input
+              id={`folder-${feedId}`}
+              placeholder="AI Research"
+              value={folderInput}
+              onChange={(e) => setFolderInput(e.target.value)}
+              list={`folders-${feedId}`}
+            />
+            <datalist id={`folders-${feedId}`}>
+              {existingFolders.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={`tags-${feedId}`}>Tags</Label>
+            <Input
+              id={`tags-${feedId}`}
+              placeholder="competitors, weekly"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Separate tags with commas
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setIsOpen(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { toast } from "sonner";
+import { setFeedFullTextEnabled } from "@/actions/rss-feed";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface FullTextToggleProps {
+  feedId: string;
+  enabled: boolean;
+}
+
+export function FullTextToggle({ feedId, enabled }: FullTextToggleProps) {
+  const router = useRouter();
+  const [checked, setChecked] = React.useState(enabled);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleChange = async (value: boolean) => {
+    setChecked(value);
+
+    try {
+      setIsSaving(true);
+      const result = await setFeedFullTextEnabled(feedId, value);
+      if (!result.success) {
+        toast.error(result.error);
+        setChecked(!value);
+        return;
+      }
+
+      toast.success(
+        value
+          ? "Full text will be extracted on the next refresh"
+          : "Full-text extraction turned off",
+      );
+      router.refresh(); // Refresh server component
+    } catch (error) {
+      console.error("Failed to update full-text setting:", error);
+      toast.error("Failed to update feed");
+      setChecked(!value);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="inline-flex items-center gap-1.5 whitespace-nowrap">
+      <Checkbox
+        id={`full-text-${feedId}`}
+        checked={checked}
+        disabled={isSaving}
+        onCheckedChange={(value) => handleChange(value === true)}
+        className="size-3.5"
+      />
+      <Label
+        htmlFor={`full-text-${feedId}`}
+        className="text-xs font-normal text-muted-foreground cursor-pointer"
+        title="Fetch each article's page and extract the full text for newsletter generation"
+      >
+        Full text
+      </Label>
+    </div>
+  );
+}
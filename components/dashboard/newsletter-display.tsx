@@ -16,6 +16,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { getEntitlements, resolvePlan } from "@/lib/auth/entitlements";
 
 interface NewsletterDisplayProps {
   newsletter: Partial<GeneratedNewsletter>;
@@ -31,16 +32,12 @@ export function NewsletterDisplay({
   hideSaveButton = false,
 }: NewsletterDisplayProps) {
   const { has } = useAuth();
-  const [isPro, setIsPro] = React.useState(false);
+  const [canSave, setCanSave] = React.useState(false);
 
   React.useEffect(() => {
-    const checkPlan = async () => {
-      if (has) {
-        const proStatus = await has({ plan: "pro" });
-        setIsPro(proStatus);
-      }
-    };
-    checkPlan();
+    if (has) {
+      setCanSave(getEntitlements(resolvePlan(has)).maxSavedNewsletters > 0);
+    }
   }, [has]);
   const [copiedSection, setCopiedSection] = React.useState<string | null>(null);
 
@@ -103,7 +100,7 @@ export function NewsletterDisplay({
             </CardDescription>
           </div>
           <div className="flex gap-2">
-            {isPro && !hideSaveButton && (
+            {canSave && !hideSaveButton && (
               <Button
                 variant="outline"
                 size="sm"
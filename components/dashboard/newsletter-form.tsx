@@ -1,6 +1,6 @@
 "use client";
 
-import { Sparkles } from "lucide-react";
+import { Folder, Search, Sparkles, Tag } from "lucide-react";
 import { useRouter } from "next/navigation";
 import * as React from "react";
 import { toast } from "sonner";
@@ -13,32 +13,158 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
 import { type DateRange, DateRangePicker } from "./date-range-picker";
 
 interface RssFeed {
   id: string;
   title: string | null;
   url: string;
+  folder: string | null;
+  tags: string[];
 }
 
 interface NewsletterFormProps {
   feeds: RssFeed[];
 }
 
+/**
+ * A folder or tag and the feeds in it
+ */
+interface FeedGroup {
+  key: string;
+  label: string;
+  feedIds: string[];
+}
+
+/**
+ * localStorage key for the last feed selection
+ */
+const SELECTION_STORAGE_KEY = "newsletter-form:selected-feeds";
+
+/**
+ * Label of the group holding feeds without a folder
+ */
+const UNFILED_LABEL = "Unfiled";
+
+/**
+ * Groups feeds by folder, in alphabetical order with unfiled feeds last
+ */
+function groupByFolder(feeds: RssFeed[]): FeedGroup[] {
+  const groups = new Map<string, FeedGroup>();
+
+  for (const feed of feeds) {
+    const key = feed.folder ?? "";
+    const group = groups.get(key) ?? {
+      key: `folder:${key}`,
+      label: feed.folder ?? UNFILED_LABEL,
+      feedIds: [],
+    };
+    group.feedIds.push(feed.id);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (!a ? 1 : !b ? -1 : a.localeCompare(b)))
+    .map(([, group]) => group);
+}
+
+/**
+ * Groups feeds by tag, ignoring case, in alphabetical order
+ */
+function groupByTag(feeds: RssFeed[]): FeedGroup[] {
+  const groups = new Map<string, FeedGroup>();
+
+  for (const feed of feeds) {
+    for (const tag of feed.tags) {
+      const key = tag.toLowerCase();
+      const group = groups.get(key) ?? {
+        key: `tag:${key}`,
+        label: tag,
+        feedIds: [],
+      };
+      group.feedIds.push(feed.id);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * Reads the last selection, keeping only feeds that still exist
+ * Returns null if nothing usable was stored
+ */
+function loadSelection(feeds: RssFeed[]): string[] | null {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(SELECTION_STORAGE_KEY) ?? "null",
+    );
+    if (!Array.isArray(stored)) {
+      return null;
+    }
+
+    const feedIds = new Set(feeds.map((f) => f.id));
+    const selection = stored.filter((id) => feedIds.has(id));
+    return selection.length > 0 ? selection : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSelection(selection: string[]) {
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch {
+    // Storage can be full or disabled; the selection just isn't remembered
+  }
+}
+
 export function NewsletterForm({ feeds }: NewsletterFormProps) {
   const router = useRouter();
   const [dateRange, setDateRange] = React.useState<DateRange | undefined>();
   const [userInput, setUserInput] = React.useState("");
   const [selectedFeeds, setSelectedFeeds] = React.useState<string[]>([]);
+  const [search, setSearch] = React.useState("");
+  const isSelectionLoaded = React.useRef(false);
 
-  // Initialize with all feeds selected
+  // Restore the last selection, or select all feeds the first time
   React.useEffect(() => {
-    setSelectedFeeds(feeds.map((f) => f.id));
+    setSelectedFeeds(loadSelection(feeds) ?? feeds.map((f) => f.id));
+    isSelectionLoaded.current = true;
   }, [feeds]);
 
+  React.useEffect(() => {
+    if (isSelectionLoaded.current) {
+      saveSelection(selectedFeeds);
+    }
+  }, [selectedFeeds]);
+
+  const folderGroups = React.useMemo(() => groupByFolder(feeds), [feeds]);
+  const tagGroups = React.useMemo(() => groupByTag(feeds), [feeds]);
+  const quickGroups = [
+    ...folderGroups.filter((group) => group.label !== UNFILED_LABEL),
+    ...tagGroups,
+  ];
+
+  const visibleFeeds = React.useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) {
+      return feeds;
+    }
+    return feeds.filter((feed) =>
+      [feed.title ?? "", feed.url, feed.folder ?? "", ...feed.tags].some(
+        (value) => value.toLowerCase().includes(query),
+      ),
+    );
+  }, [feeds, search]);
+
   const allSelected = selectedFeeds.length === feeds.length;
+  const isGroupSelected = (group: FeedGroup) =>
+    group.feedIds.every((id) => selectedFeeds.includes(id));
 
   const handleSelectAll = () => setSelectedFeeds(feeds.map((f) => f.id));
   const handleDeselectAll = () => setSelectedFeeds([]);
@@ -50,6 +176,18 @@ export function NewsletterForm({ feeds }: NewsletterFormProps) {
     );
   };
 
+  /**
+   * Selects every feed in a group, or deselects them if all are selected
+   */
+  const handleToggleGroup = (group: FeedGroup) => {
+    const selected = isGroupSelected(group);
+    setSelectedFeeds((prev) =>
+      selected
+        ? prev.filter((id) => !group.feedIds.includes(id))
+        : [...new Set([...prev, ...group.feedIds])],
+    );
+  };
+
   const handleGenerate = () => {
     if (!dateRange?.from || !dateRange?.to) {
       toast.error("Please select a date range");
@@ -105,22 +243,101 @@ export function NewsletterForm({ feeds }: NewsletterFormProps) {
                 </Button>
               )}
             </div>
-            <div className="border rounded-lg p-4 space-y-3 max-h-60 overflow-y-auto">
-              {feeds.map((feed) => (
-                <div key={feed.id} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={feed.id}
-                    checked={selectedFeeds.includes(feed.id)}
-                    onCheckedChange={() => handleToggleFeed(feed.id)}
-                  />
-                  <Label
-                    htmlFor={feed.id}
-                    className="text-sm font-normal cursor-pointer flex-1"
+            {quickGroups.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {quickGroups.map((group) => (
+                  <Button
+                    key={group.key}
+                    variant={isGroupSelected(group) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleToggleGroup(group)}
                   >
-                    {feed.title || feed.url}
-                  </Label>
+                    {group.key.startsWith("tag:") ? (
+                      <Tag className="h-3 w-3 mr-1" />
+                    ) : (
+                      <Folder className="h-3 w-3 mr-1" />
+                    )}
+                    {group.label}
+                    <span className="ml-1 opacity-70">
+                      {group.feedIds.length}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            )}
+            {feeds.length > 10 && (
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search feeds, folders and tags"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            )}
+            <div className="border rounded-lg p-4 space-y-4 max-h-80 overflow-y-auto">
+              {folderGroups.map((group) => {
+                const groupFeeds = visibleFeeds.filter((feed) =>
+                  group.feedIds.includes(feed.id),
+                );
+                if (groupFeeds.length === 0) {
+                  return null;
+                }
+                const selectedCount = group.feedIds.filter((id) =>
+                  selectedFeeds.includes(id),
+                ).length;
+
+                return (
+                  <div key={group.key} className="space-y-3">
+                    {folderGroups.length > 1 && (
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={group.key}
+                          checked={isGroupSelected(group)}
+                          onCheckedChange={() => handleToggleGroup(group)}
+                        />
+                        <Label
+                          htmlFor={group.key}
+                          className="text-sm font-semibold cursor-pointer flex-1"
+                        >
+                          <Folder className="h-3.5 w-3.5" />
+                          {group.label}
+                          <span className="font-normal text-muted-foreground">
+                            {selectedCount}/{group.feedIds.length}
+                          </span>
+                        </Label>
+                      </div>
+                    )}
+                    {groupFeeds.map((feed) => (
+                      <div
+                        key={feed.id}
+                        className={cn(
+                          "flex items-center space-x-2",
+                          folderGroups.length > 1 && "pl-6",
+                        )}
+                      >
+                        <Checkbox
+                          id={feed.id}
+                          checked={selectedFeeds.includes(feed.id)}
+                          onCheckedChange={() => handleToggleFeed(feed.id)}
+                        />
+                        <Label
+                          htmlFor={feed.id}
+                          className="text-sm font-normal cursor-pointer flex-1"
+                        >
+                          {feed.title || feed.url}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+              {visibleFeeds.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  No feeds match your search
                 </div>
-              ))}
+              )}
             </div>
             <p className="text-xs text-muted-foreground">
               {selectedFeeds.length} of {feeds.length} feeds selected
@@ -35,6 +35,18 @@ const newsletterSchema = z.object({
 
 type NewsletterObject = z.infer<typeof newsletterSchema>;
 
+/**
+ * Extracts the message from an API error
+ * Routes answer `{ error }` JSON, which useObject passes on as the message.
+ */
+function getApiErrorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message).error ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
 /**
  * Newsletter Generation Page
  *
@@ -50,6 +62,10 @@ export function NewsletterGenerationPage() {
   const searchParams = useSearchParams();
   const hasStartedRef = React.useRef(false);
   const [articlesCount, setArticlesCount] = React.useState(0);
+  const [prepareError, setPrepareError] = React.useState<string | null>(null);
+  const [generationError, setGenerationError] = React.useState<string | null>(
+    null,
+  );
 
   // Parse generation parameters from URL query string
   const feedIds = searchParams.get("feedIds");
@@ -78,13 +94,30 @@ export function NewsletterGenerationPage() {
   }
 
   // Use AI SDK's useObject hook for streaming
-  const { object, submit, isLoading } = useObject({
+  const { object, submit, isLoading, error } = useObject({
     api: "/api/newsletter/generate-stream",
     schema: newsletterSchema,
+    onError: (error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+    // The stream ends normally when the model fails, so a failed generation
+    // shows up as an incomplete object
+    onFinish: ({ error }) => {
+      if (error) {
+        const message =
+          "The newsletter couldn't be generated completely. Please try again.";
+        toast.error(message);
+        setGenerationError(message);
+      }
+    },
   });
 
   // Type assertion for the newsletter object
   const newsletter = object as Partial<NewsletterObject> | undefined;
+  const errorMessage =
+    prepareError ??
+    generationError ??
+    (error ? getApiErrorMessage(error) : null);
 
   // Auto-start generation with pre-flight metadata check
   React.useEffect(() => {
@@ -103,9 +136,17 @@ export function NewsletterGenerationPage() {
           body: JSON.stringify(params),
         });
 
-        if (response.ok) {
-          const data = await response.json();
+        const data = await response.json();
 
+        // Stop on errors the generation would hit too (quota, plan limits,
+        // ownership) - anything else falls through to generation
+        if (!response.ok && [401, 403, 404, 429].includes(response.status)) {
+          toast.error(data.error);
+          setPrepareError(data.error);
+          return;
+        }
+
+        if (response.ok) {
           // Show toast for feed refresh if needed
           if (data.feedsToRefresh > 0) {
             toast.info(
@@ -136,10 +177,15 @@ export function NewsletterGenerationPage() {
 
   // Show success toast when generation completes
   React.useEffect(() => {
-    if (!isLoading && newsletter?.body && articlesCount > 0) {
+    if (
+      !isLoading &&
+      newsletter?.body &&
+      articlesCount > 0 &&
+      !generationError
+    ) {
       toast.success(`Newsletter generated from ${articlesCount} articles!`);
     }
-  }, [isLoading, newsletter?.body, articlesCount]);
+  }, [isLoading, newsletter?.body, articlesCount, generationError]);
 
   // Navigation guard - warn users before leaving during generation
   // This prevents accidental loss of work if they close the tab
@@ -170,13 +216,17 @@ export function NewsletterGenerationPage() {
     }
 
     try {
-      await saveGeneratedNewsletter({
+      const result = await saveGeneratedNewsletter({
         newsletter: newsletter as GeneratedNewsletter,
         feedIds: params.feedIds,
         startDate: new Date(params.startDate),
         endDate: new Date(params.endDate),
         userInput: params.userInput,
       });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
 
       toast.success("Newsletter saved to history!");
     } catch (error) {
@@ -265,12 +315,27 @@ export function NewsletterGenerationPage() {
               newsletter={newsletter}
               onSave={handleSave}
               isGenerating={isLoading}
+              hideSaveButton={Boolean(generationError)}
             />
           </div>
         )}
 
+        {/* Generation was rejected or failed */}
+        {!isLoading && !newsletter?.body && errorMessage && (
+          <Card className="transition-all hover:shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-2xl">
+                Newsletter Not Generated
+              </CardTitle>
+              <CardDescription className="text-base">
+                {errorMessage}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
         {/* If generation hasn't started yet */}
-        {!isLoading && !newsletter?.body && (
+        {!isLoading && !newsletter?.body && !errorMessage && (
           <Card className="transition-all hover:shadow-lg">
             <CardHeader>
               <CardTitle className="text-2xl">Preparing to Generate</CardTitle>
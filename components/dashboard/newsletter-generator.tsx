@@ -7,12 +7,22 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { getEntitlements, resolvePlan } from "@/lib/auth/entitlements";
+import { getPausedFeedIds } from "@/lib/auth/plan-limits";
 import { NewsletterForm } from "./newsletter-form";
 
 export async function NewsletterGenerator() {
-  const { userId } = await auth();
+  const { userId, has } = await auth();
   const user = await upsertUserFromClerk(userId!);
-  const feeds = await getRssFeedsByUserId(user.id);
+  const pausedFeedIds = await getPausedFeedIds(
+    user.id,
+    getEntitlements(resolvePlan(has)),
+  );
+
+  // Feeds paused by a downgrade can't be used for newsletters
+  const feeds = (await getRssFeedsByUserId(user.id)).filter(
+    (feed) => !pausedFeedIds.has(feed.id),
+  );
 
   if (feeds.length === 0) {
     return (
@@ -33,6 +43,8 @@ export async function NewsletterGenerator() {
         id: f.id,
         title: f.title,
         url: f.url,
+        folder: f.folder,
+        tags: f.tags,
       }))}
     />
   );
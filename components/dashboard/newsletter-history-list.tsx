@@ -59,7 +59,13 @@ export function NewsletterHistoryList({
 
     startTransition(async () => {
       try {
-        await deleteNewsletterAction(newsletterId);
+        const result = await deleteNewsletterAction(newsletterId);
+        if (!result.success) {
+          toast.error(result.error);
+          setDeletingId(null);
+          return;
+        }
+
         toast.success("Newsletter deleted successfully");
         setDeletingId(null);
       } catch (error) {
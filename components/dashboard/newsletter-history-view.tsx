@@ -55,7 +55,12 @@ export function NewsletterHistoryView({
 
     startTransition(async () => {
       try {
-        await deleteNewsletterAction(newsletter.id);
+        const result = await deleteNewsletterAction(newsletter.id);
+        if (!result.success) {
+          toast.error(result.error);
+          return;
+        }
+
         toast.success("Newsletter deleted successfully");
         router.push("/dashboard/history");
       } catch (error) {
@@ -0,0 +1,158 @@
+"use client";
+
+import { CheckCircle2, Copy, RefreshCw, Upload, XCircle } from "lucide-react";
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { toast } from "sonner";
+import { importOpmlFeeds } from "@/actions/opml";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { OpmlImportItem } from "@/lib/rss/types";
+
+const STATUS_ICONS: Record<OpmlImportItem["status"], React.ReactNode> = {
+  added: <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />,
+  duplicate: <Copy className="h-4 w-4 shrink-0 text-muted-foreground" />,
+  failed: <XCircle className="h-4 w-4 shrink-0 text-destructive" />,
+  limit: <XCircle className="h-4 w-4 shrink-0 text-amber-600" />,
+};
+
+const STATUS_LABELS: Record<OpmlImportItem["status"], string> = {
+  added: "Added",
+  duplicate: "Duplicate",
+  failed: "Failed",
+  limit: "Over limit",
+};
+
+export function OpmlImportDialog() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [file, setFile] = React.useState<File | null>(null);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [results, setResults] = React.useState<OpmlImportItem[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+      setResults([]);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      toast.error("Please choose an OPML file");
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+
+      const opml = await file.text();
+      const summary = await importOpmlFeeds(opml);
+      setResults(summary.results);
+
+      toast.success(
+        `Imported ${summary.added} feed${summary.added !== 1 ? "s" : ""} (${summary.duplicates} duplicate, ${summary.failed} failed)`,
+      );
+      if (summary.overLimit > 0) {
+        toast.warning(
+          `${summary.overLimit} feed${summary.overLimit !== 1 ? "s were" : " was"} skipped because of your plan's feed limit`,
+        );
+      }
+
+      router.refresh(); // Refresh server component
+    } catch (error) {
+      console.error("Failed to import OPML:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import OPML file",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import OPML</DialogTitle>
+          <DialogDescription>
+            Upload an OPML file exported from another feed reader. Folders are
+            kept, and feeds you already have are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="opml-file">OPML File</Label>
+            <Input
+              id="opml-file"
+              type="file"
+              accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setResults([]);
+              }}
+            />
+          </div>
+          {results.length > 0 && (
+            <div className="border rounded-lg divide-y max-h-72 overflow-y-auto">
+              {results.map((item) => (
+                <div
+                  key={`${item.status}-${item.url}`}
+                  className="flex items-start gap-3 p-3"
+                >
+                  {STATUS_ICONS[item.status]}
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-medium truncate">
+                      {item.title || item.url}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {STATUS_LABELS[item.status]}
+                      {item.folder && ` · ${item.folder}`}
+                      {item.message && ` · ${item.message}`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isImporting}
+          >
+            {results.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || !file}>
+            {isImporting ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              "Import Feeds"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
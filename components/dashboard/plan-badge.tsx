@@ -5,31 +5,34 @@ import { Crown, Sparkles } from "lucide-react";
 import Link from "next/link";
 import * as React from "react";
 import { Badge } from "@/components/ui/badge";
+import {
+  getEntitlements,
+  type PlanId,
+  resolvePlan,
+} from "@/lib/auth/entitlements";
 
 export function PlanBadge() {
   const { has } = useAuth();
-  const [isPro, setIsPro] = React.useState<boolean | null>(null);
+  const [plan, setPlan] = React.useState<PlanId | null>(null);
 
   React.useEffect(() => {
-    const checkPlan = async () => {
-      if (has) {
-        const proStatus = await has({ plan: "pro" });
-        setIsPro(proStatus);
-      }
-    };
-    checkPlan();
+    if (has) {
+      setPlan(resolvePlan(has));
+    }
   }, [has]);
 
-  if (isPro === null) {
+  if (plan === null) {
     return null;
   }
 
+  const { name } = getEntitlements(plan);
+
   return (
     <Link href="/dashboard/pricing">
-      {isPro ? (
+      {plan === "pro" ? (
         <Badge className="gap-1.5 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white border-0 transition-all cursor-pointer">
           <Crown className="h-3.5 w-3.5" />
-          <span className="font-semibold">Pro</span>
+          <span className="font-semibold">{name}</span>
         </Badge>
       ) : (
         <Badge
@@ -37,7 +40,7 @@ export function PlanBadge() {
           className="gap-1.5 px-3 py-1.5 hover:bg-secondary/80 transition-all cursor-pointer"
         >
           <Sparkles className="h-3.5 w-3.5" />
-          <span className="font-semibold">Starter</span>
+          <span className="font-semibold">{name}</span>
         </Badge>
       )}
     </Link>
@@ -1,7 +1,8 @@
 import { auth } from "@clerk/nextjs/server";
-import { ExternalLink, Plus } from "lucide-react";
+import { AlertTriangle, Download, ExternalLink, Plus } from "lucide-react";
 import { getRssFeedsByUserId } from "@/actions/rss-feed";
 import { upsertUserFromClerk } from "@/actions/user";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,15 +11,39 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  getEntitlements,
+  getFeedLimitMessage,
+  resolvePlan,
+} from "@/lib/auth/entitlements";
+import { getPausedFeedIds } from "@/lib/auth/plan-limits";
+import type { FeedFilterRule } from "@/lib/rss/types";
 import { AddFeedDialog } from "./add-feed-dialog";
 import { DeleteFeedButton } from "./delete-feed-button";
+import { EditFeedDialog } from "./edit-feed-dialog";
+import { FeedFiltersDialog } from "./feed-filters-dialog";
+import { FeedHealthBadge } from "./feed-health-badge";
+import { FeedOrganizeDialog } from "./feed-organize-dialog";
+import { FullTextToggle } from "./full-text-toggle";
+import { OpmlImportDialog } from "./opml-import-dialog";
 
 interface RssFeed {
   id: string;
   url: string;
   title: string | null;
+  customTitle: string | null;
+  sourceTitle: string | null;
+  note: string | null;
   description: string | null;
+  folder: string | null;
+  tags: string[];
   lastFetched: Date | null;
+  fullTextEnabled: boolean;
+  filterRules: FeedFilterRule[];
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+  nextRetryAt: Date | null;
   _count?: {
     articles: number;
   };
@@ -26,11 +51,20 @@ interface RssFeed {
 
 export async function RssFeedManager() {
   const { userId, has } = await auth();
-  const isPro = await has({ plan: "pro" });
-  const feedLimit = isPro ? Infinity : 3;
+  const entitlements = getEntitlements(resolvePlan(has));
+  const feedLimit = entitlements.maxFeeds;
+  const limitMessage = getFeedLimitMessage(entitlements);
 
   const user = await upsertUserFromClerk(userId!);
   const feeds = (await getRssFeedsByUserId(user.id)) as RssFeed[];
+  const pausedFeedIds = await getPausedFeedIds(user.id, entitlements);
+  const folders = [
+    ...new Set(
+      feeds
+        .map((feed) => feed.folder)
+        .filter((folder): folder is string => Boolean(folder)),
+    ),
+  ].sort();
 
   return (
     <Card className="transition-all hover:shadow-lg overflow-hidden">
@@ -40,14 +74,26 @@ export async function RssFeedManager() {
             <CardTitle className="text-2xl">RSS Feeds</CardTitle>
             <CardDescription className="text-base">
               Manage your RSS feed sources{" "}
-              {!isPro && `(${feeds.length}/${feedLimit} used)`}
+              {Number.isFinite(feedLimit) &&
+                `(${feeds.length}/${feedLimit} used)`}
             </CardDescription>
           </div>
-          <AddFeedDialog
-            currentFeedCount={feeds.length}
-            feedLimit={feedLimit}
-            isPro={isPro}
-          />
+          <div className="flex items-center gap-2">
+            <OpmlImportDialog />
+            {feeds.length > 0 && (
+              <Button size="sm" variant="outline" asChild>
+                <a href="/api/feeds/opml" download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </a>
+              </Button>
+            )}
+            <AddFeedDialog
+              currentFeedCount={feeds.length}
+              feedLimit={feedLimit}
+              limitMessage={limitMessage}
+            />
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -59,7 +105,7 @@ export async function RssFeedManager() {
             <AddFeedDialog
               currentFeedCount={feeds.length}
               feedLimit={feedLimit}
-              isPro={isPro}
+              limitMessage={limitMessage}
               trigger={
                 <Button className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white">
                   <Plus className="h-4 w-4 mr-2" />
@@ -70,6 +116,18 @@ export async function RssFeedManager() {
           </div>
         ) : (
           <div className="grid gap-4">
+            {pausedFeedIds.size > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-950 p-3 text-sm text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <div>
+                  Your {entitlements.name} plan includes {feedLimit} feeds, so
+                  your {pausedFeedIds.size} newest feed
+                  {pausedFeedIds.size !== 1 ? "s are" : " is"} paused and left
+                  out of newsletters. Remove feeds or upgrade to Pro to use them
+                  again.
+                </div>
+              </div>
+            )}
             {feeds.map((feed) => (
               <div
                 key={feed.id}
@@ -81,6 +139,13 @@ export async function RssFeedManager() {
                       <h3 className="font-semibold truncate">
                         {feed.title || "Untitled Feed"}
                       </h3>
+                      <FeedHealthBadge
+                        consecutiveFailures={feed.consecutiveFailures}
+                        lastError={feed.lastError}
+                      />
+                      {pausedFeedIds.has(feed.id) && (
+                        <Badge variant="secondary">Paused</Badge>
+                      )}
                     </div>
                     <a
                       href={feed.url}
@@ -96,7 +161,33 @@ export async function RssFeedManager() {
                         {feed.description}
                       </p>
                     )}
+                    {feed.note && (
+                      <p className="text-xs italic text-muted-foreground mb-2 break-words">
+                        Note: {feed.note}
+                      </p>
+                    )}
+                    {feed.consecutiveFailures > 0 && (
+                      <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2 mb-2 text-xs text-destructive">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                        <div className="min-w-0 break-words">
+                          {feed.lastError || "Fetch failed"} ·{" "}
+                          {feed.consecutiveFailures} failure
+                          {feed.consecutiveFailures !== 1 ? "s" : ""} in a row
+                          {feed.nextRetryAt &&
+                            ` · next retry ${new Date(feed.nextRetryAt).toLocaleString()}`}
+                          {feed.lastSuccessAt &&
+                            ` · last success ${new Date(feed.lastSuccessAt).toLocaleDateString()}`}
+                        </div>
+                      </div>
+                    )}
                     <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <FeedOrganizeDialog
+                        feedId={feed.id}
+                        feedTitle={feed.title || feed.url}
+                        folder={feed.folder}
+                        tags={feed.tags}
+                        existingFolders={folders}
+                      />
                       <span className="whitespace-nowrap">
                         {feed._count?.articles ?? 0} article
                         {feed._count?.articles !== 1 ? "s" : ""}
@@ -107,12 +198,30 @@ export async function RssFeedManager() {
                           {new Date(feed.lastFetched).toLocaleDateString()}
                         </span>
                       )}
+                      <FullTextToggle
+                        feedId={feed.id}
+                        enabled={feed.fullTextEnabled}
+                      />
+                      <FeedFiltersDialog
+                        feedId={feed.id}
+                        feedTitle={feed.title || feed.url}
+                        rules={feed.filterRules}
+                      />
                     </div>
                   </div>
-                  <DeleteFeedButton
-                    feedId={feed.id}
-                    feedTitle={feed.title || feed.url}
-                  />
+                  <div className="flex items-center">
+                    <EditFeedDialog
+                      feedId={feed.id}
+                      url={feed.url}
+                      sourceTitle={feed.sourceTitle}
+                      customTitle={feed.customTitle}
+                      note={feed.note}
+                    />
+                    <DeleteFeedButton
+                      feedId={feed.id}
+                      feedTitle={feed.title || feed.url}
+                    />
+                  </div>
                 </div>
               </div>
             ))}
@@ -18,7 +18,15 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import type { ModelOption } from "@/lib/ai/models";
 
 type UserSettings = {
   id: string;
@@ -35,15 +43,24 @@ type UserSettings = {
   customFooter: string | null;
   senderName: string | null;
   senderEmail: string | null;
+  preferredModel: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
 interface SettingsFormProps {
   initialSettings: UserSettings | null;
+  /** Models the user's plan allows */
+  modelOptions: ModelOption[];
+  /** Model used when none is picked */
+  defaultModelId: string;
 }
 
-export function SettingsForm({ initialSettings }: SettingsFormProps) {
+export function SettingsForm({
+  initialSettings,
+  modelOptions,
+  defaultModelId,
+}: SettingsFormProps) {
   const [isSaving, setIsSaving] = React.useState(false);
   const [tagInput, setTagInput] = React.useState("");
 
@@ -61,6 +78,7 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
     customFooter: initialSettings?.customFooter || "",
     senderName: initialSettings?.senderName || "",
     senderEmail: initialSettings?.senderEmail || "",
+    preferredModel: initialSettings?.preferredModel || "",
   });
 
   const handleSave = async () => {
@@ -81,13 +99,25 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
         customFooter: formData.customFooter?.trim() || null,
         senderName: formData.senderName?.trim() || null,
         senderEmail: formData.senderEmail?.trim() || null,
+        // The default isn't stored, so a changed default applies to the user
+        preferredModel:
+          formData.preferredModel && formData.preferredModel !== defaultModelId
+            ? formData.preferredModel
+            : null,
       };
 
-      await upsertUserSettings(cleanedData);
+      const result = await upsertUserSettings(cleanedData);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
       toast.success("Settings saved successfully!");
     } catch (error) {
       console.error("Failed to save settings:", error);
-      toast.error("Failed to save settings");
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save settings",
+      );
     } finally {
       setIsSaving(false);
     }
@@ -326,6 +356,43 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
         </CardContent>
       </Card>
 
+      {/* AI Model */}
+      <Card className="transition-all hover:shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-xl">AI Model</CardTitle>
+          <CardDescription className="text-base">
+            Which model writes your newsletters?
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="preferredModel">Model</Label>
+            <Select
+              value={formData.preferredModel || defaultModelId}
+              onValueChange={(value) => handleChange("preferredModel", value)}
+            >
+              <SelectTrigger id="preferredModel" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {modelOptions.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.label}
+                    <span className="text-muted-foreground">
+                      {model.description}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              If the model stops being available, newsletters use the default
+              model instead
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button
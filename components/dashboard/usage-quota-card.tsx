@@ -0,0 +1,87 @@
+import { auth } from "@clerk/nextjs/server";
+import { Gauge } from "lucide-react";
+import Link from "next/link";
+import { upsertUserFromClerk } from "@/actions/user";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  formatLimit,
+  getEntitlements,
+  resolvePlan,
+} from "@/lib/auth/entitlements";
+import { getCurrentUsage } from "@/lib/newsletter/usage";
+import { cn } from "@/lib/utils";
+
+export async function UsageQuotaCard() {
+  const { userId, has } = await auth();
+
+  if (!userId) {
+    return null;
+  }
+
+  const entitlements = getEntitlements(resolvePlan(has));
+  const user = await upsertUserFromClerk(userId);
+  const usage = await getCurrentUsage(user.id, entitlements);
+
+  const isLimited = Number.isFinite(usage.limit);
+  const percentUsed = isLimited
+    ? Math.min((usage.generations / usage.limit) * 100, 100)
+    : 0;
+  const resetsOn = usage.end.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <Card className="transition-all hover:shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Monthly Usage
+        </CardTitle>
+        <CardDescription className="text-base">
+          {isLimited
+            ? `${usage.remaining} of ${usage.limit} generations left on the ${entitlements.name} plan`
+            : `Unlimited generations on the ${entitlements.name} plan`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-baseline justify-between text-sm">
+          <span className="font-medium">
+            {usage.generations} / {formatLimit(usage.limit)} generations
+          </span>
+          <span className="text-muted-foreground">Resets {resetsOn}</span>
+        </div>
+        {isLimited && (
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className={cn(
+                "h-full rounded-full bg-gradient-to-r from-blue-600 to-purple-600",
+                usage.remaining === 0 && "from-red-600 to-red-600",
+              )}
+              style={{ width: `${percentUsed}%` }}
+            />
+          </div>
+        )}
+        <div className="text-xs text-muted-foreground">
+          {(usage.promptTokens + usage.completionTokens).toLocaleString()}{" "}
+          tokens used this month
+        </div>
+        {usage.remaining === 0 && entitlements.plan !== "pro" && (
+          <Link
+            href="/dashboard/pricing"
+            className="text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+          >
+            Upgrade to Pro for more generations
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
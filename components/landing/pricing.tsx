@@ -1,3 +1,7 @@
+import {
+  describeEntitlements,
+  PLAN_ENTITLEMENTS,
+} from "@/lib/auth/entitlements";
 import { PricingCards } from "../dashboard/pricing-cards";
 
 export function Pricing() {
@@ -17,8 +21,19 @@ export function Pricing() {
           <PricingCards />
         </div>
 
-        <p className="mt-8 text-center text-sm text-gray-500 dark:text-gray-500">
-          All plans include unlimited newsletter generation. Cancel anytime.
+        <div className="mx-auto mt-8 grid max-w-2xl gap-4 sm:grid-cols-2 text-sm text-gray-500 dark:text-gray-500">
+          {Object.values(PLAN_ENTITLEMENTS).map((entitlements) => (
+            <div key={entitlements.plan} className="text-center">
+              <p className="font-semibold text-gray-900 dark:text-white">
+                {entitlements.name}
+              </p>
+              <p>{describeEntitlements(entitlements).join(" · ")}</p>
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-4 text-center text-sm text-gray-500 dark:text-gray-500">
+          Cancel or upgrade anytime.
         </p>
       </div>
     </section>
@@ -0,0 +1,304 @@
+import { type LanguageModel, simulateReadableStream } from "ai";
+
+// ============================================
+// FAKE NEWSLETTER MODEL
+// ============================================
+//
+// Offline stand-in for a real model. It reads the articles from the
+// newsletter prompt and streams a schema-valid newsletter built from them,
+// so the same input always gives the same output. Latency and failures
+// can be configured to exercise streaming, partial rendering and error
+// handling (see getFakeModelOptionsFromEnv()).
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doStream"]>[0];
+type StreamPart = Awaited<
+  ReturnType<LanguageModelV2["doStream"]>
+>["stream"] extends ReadableStream<infer T>
+  ? T
+  : never;
+
+/**
+ * How the fake model fails, if at all
+ * - error:          the call fails before anything is streamed
+ * - mid-stream:     half the newsletter streams, then the stream errors
+ * - invalid-output: the stream completes, but the newsletter doesn't match
+ *                   NewsletterSchema
+ */
+export type FakeModelFailure = "error" | "mid-stream" | "invalid-output";
+
+const FAKE_MODEL_FAILURES: FakeModelFailure[] = [
+  "error",
+  "mid-stream",
+  "invalid-output",
+];
+
+export interface FakeModelOptions {
+  /** Delay before the first chunk */
+  initialDelayInMs?: number;
+  /** Delay between chunks */
+  chunkDelayInMs?: number;
+  failure?: FakeModelFailure;
+}
+
+/**
+ * Characters of JSON sent per streamed chunk
+ */
+const CHUNK_SIZE = 24;
+
+/**
+ * Default delay between chunks, slow enough to watch partial rendering
+ */
+const DEFAULT_CHUNK_DELAY_MS = 20;
+
+/**
+ * Articles covered in full in the body; the rest are listed briefly
+ */
+const FEATURED_ARTICLE_COUNT = 5;
+
+/**
+ * Items in suggestedTitles, suggestedSubjectLines and topAnnouncements
+ * (NewsletterSchema requires exactly five)
+ */
+const LIST_LENGTH = 5;
+
+interface PromptArticle {
+  title: string;
+  source: string;
+  link: string;
+}
+
+/**
+ * Matches one article formatted by buildArticleSummaries()
+ */
+const ARTICLE_PATTERN =
+  /^\d+\. "(.*)"\n\s+Source: ([^\n]*)[\s\S]*?\n\s+Link: (\S+)/gm;
+
+function parseDelay(value: string | undefined): number | undefined {
+  const delay = Number(value);
+  return value && Number.isFinite(delay) && delay >= 0 ? delay : undefined;
+}
+
+/**
+ * Reads fake model options from the environment
+ * - MOCK_LLM_INITIAL_DELAY_MS: delay before the first chunk (default 0)
+ * - MOCK_LLM_CHUNK_DELAY_MS:   delay between chunks (default 20)
+ * - MOCK_LLM_FAILURE:          "error", "mid-stream" or "invalid-output"
+ */
+export function getFakeModelOptionsFromEnv(): FakeModelOptions {
+  const failure = process.env.MOCK_LLM_FAILURE as FakeModelFailure | undefined;
+
+  return {
+    initialDelayInMs: parseDelay(process.env.MOCK_LLM_INITIAL_DELAY_MS),
+    chunkDelayInMs: parseDelay(process.env.MOCK_LLM_CHUNK_DELAY_MS),
+    failure:
+      failure && FAKE_MODEL_FAILURES.includes(failure) ? failure : undefined,
+  };
+}
+
+/**
+ * Collects the text of every prompt message
+ */
+function getPromptText(prompt: CallOptions["prompt"]): string {
+  return prompt
+    .flatMap((message) =>
+      typeof message.content === "string"
+        ? [message.content]
+        : message.content.flatMap((part) =>
+            part.type === "text" ? [part.text] : [],
+          ),
+    )
+    .join("\n");
+}
+
+/**
+ * Extracts the articles listed in the newsletter prompt
+ */
+function parsePromptArticles(promptText: string): PromptArticle[] {
+  return Array.from(promptText.matchAll(ARTICLE_PATTERN), (match) => ({
+    title: match[1],
+    source: match[2] || "Unknown source",
+    link: match[3],
+  }));
+}
+
+/**
+ * Builds a newsletter matching NewsletterSchema from the prompt's articles
+ */
+function buildFakeNewsletter(articles: PromptArticle[]) {
+  const sources = Array.from(
+    new Set(articles.map((article) => article.source)),
+  );
+  const lead = articles[0]?.title ?? "A quiet week";
+  const featured = articles.slice(0, FEATURED_ARTICLE_COUNT);
+  const rest = articles.slice(FEATURED_ARTICLE_COUNT);
+
+  const body = [
+    "## Top Stories",
+    "",
+    ...(featured.length > 0
+      ? featured.flatMap((article) => [
+          `### [${article.title}](${article.link})`,
+          "",
+          `From ${article.source}. Summary written by the mock model.`,
+          "",
+        ])
+      : ["No articles were found for this period.", ""]),
+    ...(rest.length > 0
+      ? [
+          "## In Brief",
+          "",
+          ...rest.map(
+            (article) =>
+              `- [${article.title}](${article.link}) (${article.source})`,
+          ),
+          "",
+        ]
+      : []),
+    "---",
+    "",
+    "*Generated offline by the mock model. No AI provider was called.*",
+  ].join("\n");
+
+  return {
+    suggestedTitles: [
+      `This Week: ${lead}`,
+      `${articles.length} Stories Worth Your Time`,
+      `The ${sources[0] ?? "Weekly"} Roundup`,
+      "What You Missed This Week",
+      "Your Feed Digest",
+    ],
+    suggestedSubjectLines: [
+      lead,
+      `${articles.length} stories from ${sources.length} sources`,
+      `This week: ${lead}`,
+      "Your weekly roundup is here",
+      "Catch up in five minutes",
+    ],
+    body,
+    topAnnouncements: Array.from(
+      { length: LIST_LENGTH },
+      (_, index) =>
+        articles[index]?.title ?? `Announcement ${index + 1}: nothing new`,
+    ),
+    additionalInfo: `Mock newsletter built from ${articles.length} articles across ${sources.length} sources.`,
+  };
+}
+
+/**
+ * Rough token count for usage reporting (about four characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Builds the response text and token usage for a prompt
+ */
+function createResponse(
+  prompt: CallOptions["prompt"],
+  failure: FakeModelFailure | undefined,
+) {
+  const promptText = getPromptText(prompt);
+  const newsletter = buildFakeNewsletter(parsePromptArticles(promptText));
+
+  // Three titles instead of five fails NewsletterSchema validation
+  const text = JSON.stringify(
+    failure === "invalid-output"
+      ? {
+          ...newsletter,
+          suggestedTitles: newsletter.suggestedTitles.slice(0, 3),
+        }
+      : newsletter,
+  );
+
+  const inputTokens = estimateTokens(promptText);
+  const outputTokens = estimateTokens(text);
+
+  return {
+    text,
+    usage: {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+function createFailureError(failure: FakeModelFailure) {
+  return new Error(`Mock model failure (${failure})`);
+}
+
+/**
+ * Creates a model that streams a newsletter built from the prompt's articles
+ *
+ * The output and reported token usage only depend on the prompt, so
+ * generation can be run offline and gives the same result every time.
+ */
+export function createFakeNewsletterModel(
+  options: FakeModelOptions = {},
+): LanguageModelV2 {
+  const { failure } = options;
+
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId: "newsletter",
+    supportedUrls: {},
+
+    doGenerate: async ({ prompt }) => {
+      if (failure === "error" || failure === "mid-stream") {
+        throw createFailureError(failure);
+      }
+
+      const { text, usage } = createResponse(prompt, failure);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+
+    doStream: async ({ prompt }) => {
+      if (failure === "error") {
+        throw createFailureError(failure);
+      }
+
+      const { text, usage } = createResponse(prompt, failure);
+
+      // A mid-stream failure stops after half the text
+      const streamedLength =
+        failure === "mid-stream" ? Math.ceil(text.length / 2) : text.length;
+      const deltas: StreamPart[] = [];
+      for (let i = 0; i < streamedLength; i += CHUNK_SIZE) {
+        deltas.push({
+          type: "text-delta",
+          id: "0",
+          delta: text.slice(i, Math.min(i + CHUNK_SIZE, streamedLength)),
+        });
+      }
+
+      const ending: StreamPart[] =
+        failure === "mid-stream"
+          ? [{ type: "error", error: createFailureError(failure) }]
+          : [
+              { type: "text-end", id: "0" },
+              { type: "finish", finishReason: "stop", usage },
+            ];
+
+      return {
+        stream: simulateReadableStream<StreamPart>({
+          initialDelayInMs: options.initialDelayInMs ?? 0,
+          chunkDelayInMs: options.chunkDelayInMs ?? DEFAULT_CHUNK_DELAY_MS,
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "0" },
+            ...deltas,
+            ...ending,
+          ],
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import type { PlanEntitlements } from "@/lib/auth/entitlements";
+
+// ============================================
+// MODEL CATALOG
+// ============================================
+//
+// Models are addressed as "provider:model", the AI SDK provider registry
+// convention (see lib/ai/registry.ts):
+// - openai:*  OpenAI API (OPENAI_API_KEY)
+// - local:*   Any OpenAI-compatible server, e.g. Ollama or vLLM
+//             (OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODELS)
+// - fake:*    Deterministic offline model for development and tests
+//
+// MOCK_LLM=1 routes every generation to the fake model, whatever the user
+// picked, so the whole generate flow can run without network access.
+//
+// Which models a user may pick is decided by their plan
+// (PlanEntitlements.models).
+
+export interface ModelOption {
+  /** Registry ID, e.g. "openai:gpt-4o" */
+  id: string;
+  label: string;
+  description: string;
+}
+
+/**
+ * Model used when the user hasn't picked one (allowed on every plan)
+ */
+export const DEFAULT_MODEL_ID = "openai:gpt-4o";
+
+export const FAKE_MODEL_ID = "fake:newsletter";
+
+const OPENAI_MODELS: ModelOption[] = [
+  {
+    id: "openai:gpt-4o",
+    label: "GPT-4o",
+    description: "OpenAI's default model for newsletters",
+  },
+  {
+    id: "openai:gpt-4o-mini",
+    label: "GPT-4o mini",
+    description: "Faster and cheaper, good for short digests",
+  },
+  {
+    id: "openai:gpt-4.1",
+    label: "GPT-4.1",
+    description: "Stronger writing over long article lists",
+  },
+  {
+    id: "openai:gpt-4.1-mini",
+    label: "GPT-4.1 mini",
+    description: "Balanced speed and quality",
+  },
+];
+
+/**
+ * Model names served by the OpenAI-compatible server, if one is configured
+ */
+export function getLocalModelNames(): string[] {
+  if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    return [];
+  }
+
+  return (process.env.OPENAI_COMPATIBLE_MODELS ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether MOCK_LLM forces every generation onto the fake model
+ */
+export function isMockLlmEnabled(): boolean {
+  return process.env.MOCK_LLM === "1" || process.env.MOCK_LLM === "true";
+}
+
+/**
+ * Whether the fake model can be used
+ * Never in production unless MOCK_LLM is explicitly set (e.g. end-to-end
+ * tests against a production build).
+ */
+export function isFakeModelEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || isMockLlmEnabled();
+}
+
+/**
+ * Lists every model this deployment can reach
+ */
+export function getAvailableModels(): ModelOption[] {
+  return [
+    ...OPENAI_MODELS,
+    ...getLocalModelNames().map((name) => ({
+      id: `local:${name}`,
+      label: name,
+      description: "Self-hosted (OpenAI-compatible server)",
+    })),
+    ...(isFakeModelEnabled()
+      ? [
+          {
+            id: FAKE_MODEL_ID,
+            label: "Fake (offline)",
+            description: "Deterministic output for development, no API calls",
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Checks a model ID against the plan's allowed models
+ * Entries ending in ":*" allow every model of that provider.
+ */
+export function isModelAllowed(
+  modelId: string,
+  entitlements: PlanEntitlements,
+): boolean {
+  return entitlements.models.some((allowed) =>
+    allowed.endsWith(":*")
+      ? modelId.startsWith(allowed.slice(0, -1))
+      : modelId === allowed,
+  );
+}
+
+/**
+ * Lists the available models the plan may use
+ */
+export function getModelsForPlan(
+  entitlements: PlanEntitlements,
+): ModelOption[] {
+  return getAvailableModels().filter((model) =>
+    isModelAllowed(model.id, entitlements),
+  );
+}
+
+/**
+ * Picks the model to generate with
+ *
+ * The user's preferred model is used when it's still available and
+ * allowed (a downgrade or a removed local model falls back silently),
+ * otherwise the default model. MOCK_LLM overrides both.
+ */
+export function resolveModelId(
+  preferredModel: string | null | undefined,
+  entitlements: PlanEntitlements,
+): string {
+  if (isMockLlmEnabled()) {
+    return FAKE_MODEL_ID;
+  }
+
+  if (
+    preferredModel &&
+    isModelAllowed(preferredModel, entitlements) &&
+    getAvailableModels().some((model) => model.id === preferredModel)
+  ) {
+    return preferredModel;
+  }
+
+  return DEFAULT_MODEL_ID;
+}
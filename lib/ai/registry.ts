@@ -0,0 +1,63 @@
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import { createProviderRegistry, customProvider, type LanguageModel } from "ai";
+import {
+  createFakeNewsletterModel,
+  getFakeModelOptionsFromEnv,
+} from "./fake-model";
+import {
+  FAKE_MODEL_ID,
+  getLocalModelNames,
+  isFakeModelEnabled,
+} from "./models";
+
+// ============================================
+// MODEL PROVIDER REGISTRY
+// ============================================
+
+/**
+ * Builds the provider registry from the environment
+ *
+ * To add another AI SDK provider (Anthropic, Google, ...), install it,
+ * register it here under a prefix, and list its models in
+ * lib/ai/models.ts.
+ */
+function createModelRegistry() {
+  // OpenAI-compatible servers mostly implement Chat Completions only
+  const compatible = createOpenAI({
+    name: "local",
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+  });
+
+  return createProviderRegistry({
+    openai,
+    local: customProvider({
+      languageModels: Object.fromEntries(
+        getLocalModelNames().map((name) => [name, compatible.chat(name)]),
+      ),
+    }),
+    fake: customProvider({
+      languageModels: isFakeModelEnabled()
+        ? {
+            [FAKE_MODEL_ID.split(":")[1]]: createFakeNewsletterModel(
+              getFakeModelOptionsFromEnv(),
+            ),
+          }
+        : {},
+    }),
+  });
+}
+
+let registry: ReturnType<typeof createModelRegistry> | undefined;
+
+/**
+ * Resolves a "provider:model" ID to an AI SDK language model
+ *
+ * @throws NoSuchModelError for models that aren't configured
+ */
+export function getLanguageModel(modelId: string): LanguageModel {
+  registry ??= createModelRegistry();
+
+  return registry.languageModel(modelId as `openai:${string}`);
+}
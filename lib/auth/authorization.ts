@@ -0,0 +1,114 @@
+import { prisma } from "@/lib/prisma";
+import { ForbiddenError, NotFoundError } from "./errors";
+import { getCurrentUser } from "./helpers";
+
+// ============================================
+// AUTHORIZATION
+// ============================================
+//
+// Every server action and route that touches user data derives the user
+// from the session (never from a client-supplied user ID) and checks that
+// each referenced feed or newsletter belongs to that user:
+//
+//   const { user, subscription } = await requireOwnedFeed(feedId);
+//
+// Missing records throw NotFoundError (404), other users' records throw
+// ForbiddenError (403), and a missing session throws UnauthenticatedError
+// (401) - see lib/auth/errors.ts.
+
+/**
+ * MongoDB ObjectId format; anything else can't be a record ID
+ */
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+/**
+ * Checks that a client-supplied user ID is the signed-in user's
+ * Used by actions that still take a user ID from server components
+ *
+ * @returns The signed-in user
+ * @throws ForbiddenError if the IDs differ
+ */
+export async function requireCurrentUser(userId: string) {
+  const user = await getCurrentUser();
+
+  if (user.id !== userId) {
+    throw new ForbiddenError("Cannot access another user's data");
+  }
+
+  return user;
+}
+
+/**
+ * Checks that every feed (subscription) ID belongs to a user
+ *
+ * @param userId - Owner to check against
+ * @param feedIds - Subscription IDs from the client
+ * @throws NotFoundError if any feed doesn't exist
+ * @throws ForbiddenError if any feed belongs to another user
+ */
+export async function assertFeedsOwnedBy(userId: string, feedIds: string[]) {
+  const ids = [...new Set(feedIds)];
+
+  if (ids.some((id) => !OBJECT_ID_PATTERN.test(id))) {
+    throw new NotFoundError("Feed not found");
+  }
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: { id: { in: ids } },
+    select: { userId: true },
+  });
+
+  if (subscriptions.length !== ids.length) {
+    throw new NotFoundError("Feed not found");
+  }
+  if (subscriptions.some((subscription) => subscription.userId !== userId)) {
+    throw new ForbiddenError("Feed does not belong to user");
+  }
+}
+
+/**
+ * Loads a feed (subscription) of the signed-in user
+ *
+ * @returns The signed-in user and the subscription
+ * @throws NotFoundError / ForbiddenError (see assertFeedsOwnedBy)
+ */
+export async function requireOwnedFeed(feedId: string) {
+  const user = await getCurrentUser();
+
+  const subscription = OBJECT_ID_PATTERN.test(feedId)
+    ? await prisma.subscription.findUnique({ where: { id: feedId } })
+    : null;
+
+  if (!subscription) {
+    throw new NotFoundError("Feed not found");
+  }
+  if (subscription.userId !== user.id) {
+    throw new ForbiddenError("Feed does not belong to user");
+  }
+
+  return { user, subscription };
+}
+
+/**
+ * Loads a newsletter of the signed-in user
+ *
+ * @returns The signed-in user and the newsletter
+ * @throws NotFoundError if the newsletter doesn't exist
+ * @throws ForbiddenError if it belongs to another user
+ */
+export async function requireOwnedNewsletter(newsletterId: string) {
+  const user = await getCurrentUser();
+
+  const newsletter = OBJECT_ID_PATTERN.test(newsletterId)
+    ? await prisma.newsletter.findUnique({ where: { id: newsletterId } })
+    : null;
+
+  if (!newsletter) {
+    throw new NotFoundError("Newsletter not found");
+  }
+  if (newsletter.userId !== user.id) {
+    throw new ForbiddenError("Newsletter does not belong to user");
+  }
+
+  return { user, newsletter };
+}
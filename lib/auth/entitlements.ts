@@ -0,0 +1,108 @@
+// ============================================
+// PLAN ENTITLEMENTS
+// ============================================
+//
+// The single definition of what each Clerk billing plan allows. Server
+// actions and routes enforce these limits (see lib/auth/plan-limits.ts,
+// and lib/newsletter/usage.ts for monthly generations);
+// the dashboard and pricing copy read them, so a limit is changed here
+// and nowhere else.
+//
+// Downgrades never delete data. A user over a limit keeps everything:
+// - Feeds: the oldest `maxFeeds` stay active, newer ones are paused
+//   (kept and refreshed, but not used for newsletters) and no feeds can
+//   be added until the user is under the limit
+// - Saved newsletters: kept, but history is hidden and new ones can't be
+//   saved while the plan allows none
+// - Settings: kept, but only applied to newsletters on plans with
+//   customSettings
+
+export type PlanId = "starter" | "pro";
+
+export interface PlanEntitlements {
+  plan: PlanId;
+  /** Display name */
+  name: string;
+  /** Feed subscriptions (Infinity = unlimited) */
+  maxFeeds: number;
+  /** Newsletter generations per billing month (Infinity = unlimited) */
+  generationsPerMonth: number;
+  /** Newsletters kept in history (0 = saving disabled) */
+  maxSavedNewsletters: number;
+  /** Models the plan may pick ("provider:model", or "provider:*" for all; see lib/ai/models.ts) */
+  models: string[];
+  /** Saved newsletter settings (tone, branding, ...) applied to prompts */
+  customSettings: boolean;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanId, PlanEntitlements> = {
+  starter: {
+    plan: "starter",
+    name: "Starter",
+    maxFeeds: 3,
+    generationsPerMonth: 20,
+    maxSavedNewsletters: 0,
+    models: ["openai:gpt-4o", "openai:gpt-4o-mini", "fake:*"],
+    customSettings: false,
+  },
+  pro: {
+    plan: "pro",
+    name: "Pro",
+    maxFeeds: Infinity,
+    generationsPerMonth: 200,
+    maxSavedNewsletters: Infinity,
+    models: ["openai:*", "local:*", "fake:*"],
+    customSettings: true,
+  },
+};
+
+/**
+ * Works out the user's plan from Clerk's `has` check
+ * Works with both the server (`auth()`) and client (`useAuth()`) helper.
+ * Anyone without the Pro plan gets Starter limits.
+ */
+export function resolvePlan(
+  has: ((params: { plan: string }) => boolean) | undefined,
+): PlanId {
+  return has?.({ plan: "pro" }) ? "pro" : "starter";
+}
+
+/**
+ * Returns the entitlements of a plan
+ */
+export function getEntitlements(plan: PlanId): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[plan];
+}
+
+/**
+ * Formats a limit for display ("Unlimited" for Infinity)
+ */
+export function formatLimit(limit: number): string {
+  return Number.isFinite(limit) ? String(limit) : "Unlimited";
+}
+
+/**
+ * Lists a plan's features for pricing and upgrade copy
+ */
+export function describeEntitlements(entitlements: PlanEntitlements): string[] {
+  const count = (limit: number, noun: string) =>
+    `${formatLimit(limit)} ${noun}${limit === 1 ? "" : "s"}`;
+
+  return [
+    count(entitlements.maxFeeds, "RSS feed"),
+    `${count(entitlements.generationsPerMonth, "newsletter generation")} per month`,
+    entitlements.maxSavedNewsletters > 0
+      ? "Saved newsletter history"
+      : "No newsletter history",
+    ...(entitlements.customSettings ? ["Custom newsletter settings"] : []),
+  ];
+}
+
+/**
+ * Message shown when a user can't add more feeds
+ */
+export function getFeedLimitMessage(entitlements: PlanEntitlements): string {
+  return entitlements.plan === "pro"
+    ? "Feed limit reached"
+    : `${entitlements.name} plan limited to ${entitlements.maxFeeds} feeds. Upgrade to Pro for unlimited feeds.`;
+}
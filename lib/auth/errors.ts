@@ -0,0 +1,108 @@
+// ============================================
+// AUTHORIZATION ERRORS
+// ============================================
+
+/**
+ * Base class for errors that map to an HTTP status
+ *
+ * Thrown by the authorization layer (see lib/auth/authorization.ts).
+ * wrapDatabaseOperation passes these through unchanged, and routes turn
+ * them into a response with getErrorStatus.
+ */
+export class AuthorizationError extends Error {
+  readonly status: 401 | 403 | 404 | 429;
+
+  constructor(message: string, status: 401 | 403 | 404 | 429) {
+    super(message);
+    this.name = "AuthorizationError";
+    this.status = status;
+  }
+}
+
+/**
+ * No signed-in user, or the user has no database record yet (401)
+ */
+export class UnauthenticatedError extends AuthorizationError {
+  constructor(message = "User not authenticated") {
+    super(message, 401);
+    this.name = "UnauthenticatedError";
+  }
+}
+
+/**
+ * The resource exists but belongs to another user (403)
+ */
+export class ForbiddenError extends AuthorizationError {
+  constructor(message = "Forbidden") {
+    super(message, 403);
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The resource doesn't exist, or the ID isn't a valid ObjectId (404)
+ */
+export class NotFoundError extends AuthorizationError {
+  constructor(message = "Not found") {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The user's plan doesn't allow the action (403)
+ * See lib/auth/entitlements.ts for the limits.
+ */
+export class PlanLimitError extends AuthorizationError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = "PlanLimitError";
+  }
+}
+
+/**
+ * The user used up the plan's monthly generation quota (429)
+ * See lib/newsletter/usage.ts.
+ */
+export class QuotaExceededError extends AuthorizationError {
+  constructor(message: string) {
+    super(message, 429);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Returns the HTTP status for an error caught in a route handler
+ * Authorization errors keep their status; anything else is a 500
+ */
+export function getErrorStatus(error: unknown): number {
+  return error instanceof AuthorizationError ? error.status : 500;
+}
+
+/**
+ * Failed result returned by a server action
+ */
+export interface ActionError {
+  success: false;
+  error: string;
+}
+
+/**
+ * Returns an authorization error caught in a server action as a result
+ *
+ * Next.js replaces the message of errors thrown from server actions with
+ * a digest in production, so actions called from the UI return plan
+ * limits, quotas and ownership failures instead of throwing them.
+ * Anything else is rethrown.
+ *
+ * Example:
+ * ```ts
+ * return wrapDatabaseOperation(...).catch(toActionError);
+ * ```
+ */
+export function toActionError(error: unknown): ActionError {
+  if (error instanceof AuthorizationError) {
+    return { success: false, error: error.message };
+  }
+  throw error;
+}
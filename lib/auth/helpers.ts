@@ -2,6 +2,8 @@
 
 import { auth } from "@clerk/nextjs/server";
 import { getUserByClerkId } from "@/actions/user";
+import { getEntitlements, resolvePlan } from "./entitlements";
+import { UnauthenticatedError } from "./errors";
 
 /**
  * Gets the currently authenticated user from the database
@@ -10,36 +12,33 @@ import { getUserByClerkId } from "@/actions/user";
  * 1. Get the Clerk user ID from the current session
  * 2. Fetch the corresponding user record from our database
  *
- * @throws Error if user is not authenticated or not found in database
+ * @throws UnauthenticatedError if user is not authenticated or not found in database
  * @returns The user record from the database
  */
 export async function getCurrentUser() {
   const { userId } = await auth();
 
   if (!userId) {
-    throw new Error("User not authenticated");
+    throw new UnauthenticatedError();
   }
 
   const user = await getUserByClerkId(userId);
 
   if (!user) {
-    throw new Error("User not found in database");
+    throw new UnauthenticatedError("User not found in database");
   }
 
   return user;
 }
 
 /**
- * Checks if the current user has Pro plan access
+ * Gets the plan entitlements of the current user
+ * Signed-out users get Starter limits.
  *
- * @returns Promise resolving to true if user has Pro plan, false otherwise
+ * @returns Limits and features of the user's plan
  */
-export async function checkIsProUser(): Promise<boolean> {
+export async function getCurrentEntitlements() {
   const { has } = await auth();
 
-  if (!has) {
-    return false;
-  }
-
-  return await has({ plan: "pro" });
+  return getEntitlements(resolvePlan(has));
 }
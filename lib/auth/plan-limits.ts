@@ -0,0 +1,101 @@
+import { prisma } from "@/lib/prisma";
+import { getFeedLimitMessage, type PlanEntitlements } from "./entitlements";
+import { PlanLimitError } from "./errors";
+
+// ============================================
+// PLAN LIMIT ENFORCEMENT
+// ============================================
+
+/**
+ * Returns the IDs of the user's paused feeds
+ *
+ * After a downgrade the oldest `maxFeeds` subscriptions stay active and
+ * the rest are paused until the user removes feeds or upgrades again.
+ *
+ * @returns Subscription IDs over the plan's feed limit (empty when within it)
+ */
+export async function getPausedFeedIds(
+  userId: string,
+  entitlements: PlanEntitlements,
+): Promise<Set<string>> {
+  if (!Number.isFinite(entitlements.maxFeeds)) {
+    return new Set();
+  }
+
+  const paused = await prisma.subscription.findMany({
+    where: { userId },
+    select: { id: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    skip: entitlements.maxFeeds,
+  });
+
+  return new Set(paused.map((subscription) => subscription.id));
+}
+
+/**
+ * Checks that the user can subscribe to another feed
+ *
+ * @throws PlanLimitError if the user is at or over the plan's feed limit
+ */
+export async function assertCanAddFeed(
+  userId: string,
+  entitlements: PlanEntitlements,
+) {
+  if (!Number.isFinite(entitlements.maxFeeds)) {
+    return;
+  }
+
+  const feedCount = await prisma.subscription.count({ where: { userId } });
+
+  if (feedCount >= entitlements.maxFeeds) {
+    throw new PlanLimitError(getFeedLimitMessage(entitlements));
+  }
+}
+
+/**
+ * Checks that none of the selected feeds are paused
+ *
+ * @throws PlanLimitError if any feed is over the plan's feed limit
+ */
+export async function assertFeedsActive(
+  userId: string,
+  feedIds: string[],
+  entitlements: PlanEntitlements,
+) {
+  const paused = await getPausedFeedIds(userId, entitlements);
+  const pausedCount = new Set(feedIds.filter((id) => paused.has(id))).size;
+
+  if (pausedCount > 0) {
+    throw new PlanLimitError(
+      `${pausedCount} selected feed${pausedCount !== 1 ? "s are" : " is"} paused: ` +
+        `the ${entitlements.name} plan uses your first ${entitlements.maxFeeds} feeds. ` +
+        "Remove feeds or upgrade to Pro to use them all.",
+    );
+  }
+}
+
+/**
+ * Checks that the user can save another newsletter to history
+ *
+ * @throws PlanLimitError if saving is disabled or history is full
+ */
+export async function assertCanSaveNewsletter(
+  userId: string,
+  entitlements: PlanEntitlements,
+) {
+  if (entitlements.maxSavedNewsletters === 0) {
+    throw new PlanLimitError("Pro plan required to save newsletters");
+  }
+
+  if (!Number.isFinite(entitlements.maxSavedNewsletters)) {
+    return;
+  }
+
+  const savedCount = await prisma.newsletter.count({ where: { userId } });
+
+  if (savedCount >= entitlements.maxSavedNewsletters) {
+    throw new PlanLimitError(
+      `Newsletter history is full (${entitlements.maxSavedNewsletters} saved). Delete old newsletters to save new ones.`,
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { Prisma } from "@prisma/client";
+import { AuthorizationError } from "@/lib/auth/errors";
 
 // ============================================
 // DATABASE ERROR HANDLING UTILITIES
@@ -59,6 +60,11 @@ export function handlePrismaError(
  * @throws Always throws an error with friendly message
  */
 export function handleDatabaseError(error: unknown, operation: string): never {
+  // Authorization failures keep their type so routes can answer 401/403/404
+  if (error instanceof AuthorizationError) {
+    throw error;
+  }
+
   console.error(`Failed to ${operation}:`, error);
 
   if (isPrismaError(error)) {
@@ -5,23 +5,27 @@ import type { Prisma } from "@prisma/client";
 // ============================================
 
 /**
- * Include pattern for RSS feed with article count
- * Used in: getRssFeedsByUserId, getRssFeedById, getAllRssFeedsByUserId
+ * Include pattern for subscription with its feed source and article count
+ * Used in: getRssFeedsByUserId
  */
-export const FEED_WITH_COUNT_INCLUDE = {
-  _count: {
-    select: {
-      articles: true,
+export const SUBSCRIPTION_WITH_SOURCE_INCLUDE = {
+  source: {
+    include: {
+      _count: {
+        select: {
+          articles: true,
+        },
+      },
     },
   },
-} as const satisfies Prisma.RssFeedInclude;
+} as const satisfies Prisma.SubscriptionInclude;
 
 /**
- * Include pattern for article with feed information
- * Used in: getArticlesByDateRange, getArticlesByFeedIds, getRecentArticles, etc.
+ * Include pattern for article with feed source information
+ * Used in: getArticlesBySourcesAndDateRange
  */
-export const ARTICLE_WITH_FEED_INCLUDE = {
-  feed: {
+export const ARTICLE_WITH_SOURCE_INCLUDE = {
+  source: {
     select: {
       id: true,
       title: true,
@@ -30,6 +34,22 @@ export const ARTICLE_WITH_FEED_INCLUDE = {
   },
 } as const satisfies Prisma.RssArticleInclude;
 
+/**
+ * Select pattern for matching incoming articles to stored stories
+ * Used in: createRssArticle, bulkCreateRssArticles
+ */
+export const STORY_MATCH_SELECT = {
+  id: true,
+  guid: true,
+  canonicalUrl: true,
+  sourceIds: true,
+  aliasGuids: true,
+  sourceUrls: true,
+  simhash: true,
+  pubDate: true,
+  enclosures: { select: { url: true } },
+} as const satisfies Prisma.RssArticleSelect;
+
 /**
  * Include pattern for newsletter with user information
  * Used in: getNewsletterById
@@ -51,11 +71,11 @@ export const ARTICLE_ORDER_BY_DATE_DESC = {
 } as const satisfies Prisma.RssArticleOrderByWithRelationInput;
 
 /**
- * Common orderBy pattern for feeds (descending by creation date)
+ * Common orderBy pattern for subscriptions (descending by creation date)
  */
-export const FEED_ORDER_BY_CREATED_DESC = {
+export const SUBSCRIPTION_ORDER_BY_CREATED_DESC = {
   createdAt: "desc",
-} as const satisfies Prisma.RssFeedOrderByWithRelationInput;
+} as const satisfies Prisma.SubscriptionOrderByWithRelationInput;
 
 /**
  * Common orderBy pattern for newsletters (descending by creation date)
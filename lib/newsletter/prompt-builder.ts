@@ -1,14 +1,52 @@
+import { htmlToMarkdown, truncateText } from "@/lib/rss/content";
 import type { ArticleForPrompt, NewsletterPromptParams } from "./types";
 
 // ============================================
 // NEWSLETTER PROMPT BUILDERS
 // ============================================
 
+/**
+ * Characters of article content used when a feed has no summary
+ */
+const CONTENT_SUMMARY_LENGTH = 200;
+
+/**
+ * Characters of extracted full text included per article
+ * Enough for the AI to cover the story without blowing up the prompt.
+ */
+const FULL_TEXT_EXCERPT_LENGTH = 1000;
+
+/**
+ * Describes an article's main media file, e.g. "audio, 62 min"
+ * Lets the AI present podcast episodes and videos as such
+ */
+function describeMedia(
+  enclosures: ArticleForPrompt["enclosures"],
+): string | undefined {
+  const media = enclosures?.[0];
+  if (!media) {
+    return undefined;
+  }
+
+  const kind = media.type?.startsWith("audio/")
+    ? "audio"
+    : media.type?.startsWith("video/") || media.type?.includes("flash")
+      ? "video"
+      : "media file";
+
+  return media.duration
+    ? `${kind}, ${Math.max(1, Math.round(media.duration / 60))} min`
+    : kind;
+}
+
 /**
  * Builds article summaries for AI prompt
  *
  * Formats articles into a numbered list that's easy for AI to process.
- * Each article includes title, source, date, summary, and link.
+ * Each article includes title, source, date, summary, and link, plus an
+ * excerpt of the full text when it was extracted from the article page,
+ * the media type for podcast episodes and videos, and the user's note
+ * about the source.
  *
  * @param articles - Array of articles to summarize
  * @returns Formatted string with all article summaries
@@ -16,16 +54,37 @@ import type { ArticleForPrompt, NewsletterPromptParams } from "./types";
 export function buildArticleSummaries(articles: ArticleForPrompt[]): string {
   return articles
     .map((article, index) => {
+      // Older articles may only have raw HTML content - convert it on the fly
+      const markdown =
+        article.contentMarkdown ?? htmlToMarkdown(article.content ?? undefined);
+
       const summary =
         article.summary ||
-        article.content?.substring(0, 200) ||
+        (markdown && truncateText(markdown, CONTENT_SUMMARY_LENGTH)) ||
         "No summary available";
 
+      // Stories covered by several outlets are usually the important ones
+      const coverage =
+        article.sourceCount && article.sourceCount > 1
+          ? `\n   Covered by: ${article.sourceCount} sources`
+          : "";
+
+      const sourceNote = article.sourceNote
+        ? `\n   Source note: ${article.sourceNote}`
+        : "";
+
+      const media = describeMedia(article.enclosures);
+      const mediaLine = media ? `\n   Media: ${media}` : "";
+
+      const excerpt = article.fullText
+        ? `\n   Full text: ${truncateText(article.fullText, FULL_TEXT_EXCERPT_LENGTH)}`
+        : "";
+
       return `
 ${index + 1}. "${article.title}"
-   Source: ${article.feed.title}
-   Published: ${article.pubDate.toLocaleDateString()}
-   Summary: ${summary}
+   Source: ${article.source.title}${sourceNote}
+   Published: ${article.pubDate.toLocaleDateString()}${coverage}${mediaLine}
+   Summary: ${summary}${excerpt}
    Link: ${article.link}
 `;
     })
@@ -117,7 +176,7 @@ function buildBodyRequirements(params: NewsletterPromptParams): string[] {
   const requirements = [
     "Strong opening hook",
     "Use headings (##, ###) for structure",
-    "Highlight important stories with context",
+    "Highlight important stories with context (stories covered by more sources are usually more important)",
     "Group related stories thematically",
     "Use **bold** and *italics* for emphasis",
     "Include blockquotes (>) for key quotes",
@@ -152,6 +211,7 @@ function buildImportantNotes(params: NewsletterPromptParams): string[] {
 
   const notes = [
     "Use ALL the newsletter settings provided above to inform the style, tone, and content",
+    'Articles with a "Source note" carry the user\'s description of that source (e.g. how much to trust it) - weigh and attribute those stories accordingly',
   ];
 
   if (hasUserInput) {
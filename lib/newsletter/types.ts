@@ -9,10 +9,16 @@ import type { UserSettings } from "@prisma/client";
  */
 export interface ArticleForPrompt {
   title: string;
-  feed: { title: string | null };
+  source: { title: string | null };
+  /** The user's note about the source, e.g. how much to trust it */
+  sourceNote?: string | null;
   pubDate: Date;
   summary?: string | null;
   content?: string | null;
+  contentMarkdown?: string | null;
+  fullText?: string | null;
+  sourceCount?: number;
+  enclosures?: { type?: string | null; duration?: number | null }[];
   link: string;
 }
 
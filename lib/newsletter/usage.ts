@@ -0,0 +1,185 @@
+import type { LanguageModelUsage } from "ai";
+import type { PlanEntitlements } from "@/lib/auth/entitlements";
+import { QuotaExceededError } from "@/lib/auth/errors";
+import { isPrismaError } from "@/lib/database/error-handler";
+import { prisma } from "@/lib/prisma";
+
+// ============================================
+// GENERATION USAGE & QUOTAS
+// ============================================
+//
+// Every newsletter generation is metered in a Usage record per user per
+// billing period (UTC calendar month):
+//
+//   const periodStart = await reserveGeneration(user.id, entitlements);
+//   streamObject({
+//     ...,
+//     onFinish: ({ usage }) => recordGenerationTokens(user.id, periodStart, usage),
+//     onError: () => releaseGeneration(user.id, periodStart),
+//   });
+//
+// The generation is counted before the model is called, so concurrent
+// requests can't overrun the quota, and handed back if the call fails.
+
+export interface BillingPeriod {
+  start: Date;
+  /** First instant of the next period */
+  end: Date;
+}
+
+export interface UsageSummary extends BillingPeriod {
+  generations: number;
+  /** Plan's generations per month (Infinity = unlimited) */
+  limit: number;
+  remaining: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Returns the billing period containing a date
+ */
+export function getBillingPeriod(date: Date = new Date()): BillingPeriod {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Creates the user's Usage record for a period if it doesn't exist yet
+ * A concurrent request creating the same record is not an error.
+ */
+async function ensureUsageRecord(userId: string, periodStart: Date) {
+  try {
+    await prisma.usage.create({ data: { userId, periodStart } });
+  } catch (error) {
+    if (!isPrismaError(error) || error.code !== "P2002") {
+      throw error;
+    }
+  }
+}
+
+function getQuotaMessage(
+  entitlements: PlanEntitlements,
+  period: BillingPeriod,
+) {
+  const resetsOn = period.end.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    `Monthly generation limit reached (${entitlements.generationsPerMonth} on the ${entitlements.name} plan). ` +
+    `Your quota resets on ${resetsOn}.` +
+    (entitlements.plan === "pro" ? "" : " Upgrade to Pro for more generations.")
+  );
+}
+
+/**
+ * Gets the user's usage in the current billing period
+ *
+ * @returns Generations and tokens used, plus the plan's limit
+ */
+export async function getCurrentUsage(
+  userId: string,
+  entitlements: PlanEntitlements,
+): Promise<UsageSummary> {
+  const period = getBillingPeriod();
+
+  const usage = await prisma.usage.findUnique({
+    where: { userId_periodStart: { userId, periodStart: period.start } },
+  });
+  const generations = usage?.generations ?? 0;
+  const limit = entitlements.generationsPerMonth;
+
+  return {
+    ...period,
+    generations,
+    limit,
+    remaining: Math.max(limit - generations, 0),
+    promptTokens: usage?.promptTokens ?? 0,
+    completionTokens: usage?.completionTokens ?? 0,
+  };
+}
+
+/**
+ * Checks that the user has a generation left, without using it
+ * Used by the prepare route to fail before any work is done.
+ *
+ * @throws QuotaExceededError if the monthly quota is used up
+ */
+export async function assertGenerationQuota(
+  userId: string,
+  entitlements: PlanEntitlements,
+) {
+  const usage = await getCurrentUsage(userId, entitlements);
+
+  if (usage.remaining <= 0) {
+    throw new QuotaExceededError(getQuotaMessage(entitlements, usage));
+  }
+}
+
+/**
+ * Counts a generation against the user's monthly quota
+ *
+ * The increment only matches while the count is under the limit, so
+ * parallel requests can't exceed the quota.
+ *
+ * @returns Start of the billing period the generation was counted in
+ * @throws QuotaExceededError if the monthly quota is used up
+ */
+export async function reserveGeneration(
+  userId: string,
+  entitlements: PlanEntitlements,
+): Promise<Date> {
+  const period = getBillingPeriod();
+  const limit = entitlements.generationsPerMonth;
+
+  await ensureUsageRecord(userId, period.start);
+
+  const { count } = await prisma.usage.updateMany({
+    where: {
+      userId,
+      periodStart: period.start,
+      ...(Number.isFinite(limit) && { generations: { lt: limit } }),
+    },
+    data: { generations: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    throw new QuotaExceededError(getQuotaMessage(entitlements, period));
+  }
+
+  return period.start;
+}
+
+/**
+ * Hands back a reserved generation when the model call failed
+ */
+export async function releaseGeneration(userId: string, periodStart: Date) {
+  await prisma.usage.updateMany({
+    where: { userId, periodStart, generations: { gt: 0 } },
+    data: { generations: { decrement: 1 } },
+  });
+}
+
+/**
+ * Adds the tokens a finished generation used to its billing period
+ *
+ * @param usage - Token usage reported by the AI SDK (streamObject onFinish)
+ */
+export async function recordGenerationTokens(
+  userId: string,
+  periodStart: Date,
+  usage: LanguageModelUsage,
+) {
+  await prisma.usage.updateMany({
+    where: { userId, periodStart },
+    data: {
+      promptTokens: { increment: usage.inputTokens ?? 0 },
+      completionTokens: { increment: usage.outputTokens ?? 0 },
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { atomAdapter } from "./atom";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`../__fixtures__/adapters/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+describe("atomAdapter", () => {
+  const { metadata, articles } = atomAdapter.parse(
+    readFixture("atom.xml"),
+    "feed-1",
+  );
+  const [guide, updatedOnly, undated] = articles;
+
+  it("recognizes Atom documents", () => {
+    expect(atomAdapter.canParse(readFixture("atom.xml"), null)).toBe(true);
+    expect(atomAdapter.canParse(readFixture("rss.xml"), null)).toBe(false);
+  });
+
+  it("reads feed metadata with decoded entities", () => {
+    expect(metadata).toMatchObject({
+      title: "Atom & Friends’ Journal",
+      description: "Writing about feeds",
+      link: "https://atom.example.org/",
+      language: "en",
+    });
+  });
+
+  it("uses the alternate link, not replies or self", () => {
+    expect(guide.link).toBe("https://atom.example.org/posts/1");
+    expect(updatedOnly.link).toBe("https://atom.example.org/posts/2");
+  });
+
+  it("decodes character references in titles", () => {
+    expect(guide.title).toBe("Don’t panic");
+  });
+
+  it("reads html, xhtml and text content", () => {
+    expect(guide.content).toBe("<p>The <strong>whole</strong> guide.</p>");
+    expect(guide.summary).toBe("A short guide");
+    expect(updatedOnly.content).toBe("<p>Fish &amp; chips</p>");
+    expect(undated.content).toBe("Plain <text>");
+  });
+
+  it("prefers <published> and falls back to <updated>", () => {
+    expect(guide.pubDate.toISOString()).toBe("2025-10-02T08:00:00.000Z");
+    expect(updatedOnly.pubDate.toISOString()).toBe("2025-10-03T10:00:00.000Z");
+    expect(guide.undated).toBe(false);
+    expect(updatedOnly.undated).toBe(false);
+  });
+
+  it("marks entries without a date as undated", () => {
+    expect(undated.undated).toBe(true);
+  });
+
+  it("reads authors, categories and enclosure links", () => {
+    expect(guide).toMatchObject({
+      guid: "tag:atom.example.org,2025:1",
+      author: "Ann, Bob",
+      categories: ["guides"],
+      enclosures: [
+        {
+          url: "https://atom.example.org/audio/1.ogg",
+          type: "audio/ogg",
+          length: 4096,
+        },
+      ],
+    });
+    expect(updatedOnly.author).toBe("Feed Author");
+  });
+});
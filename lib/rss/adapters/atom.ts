@@ -0,0 +1,156 @@
+import type { ArticleData, FeedMetadata, FeedSourceAdapter } from "../types";
+import {
+  extractEnclosures,
+  extractImageUrl,
+  extractMediaDescription,
+} from "./media";
+import {
+  asArray,
+  createXmlParser,
+  decodeXmlText,
+  getRootElementName,
+  isXmlNode,
+  parseDate,
+  stripHtml,
+  type XmlNode,
+  xmlAttr,
+  xmlText,
+} from "./utils";
+
+// ============================================
+// ATOM 1.0 ADAPTER
+// ============================================
+
+/**
+ * <content> and <summary> are stop nodes so their raw markup survives:
+ * type="html" is entity-escaped HTML, type="xhtml" is inline XHTML
+ */
+const xmlParser = createXmlParser(
+  ["entry", "link", "category", "author", "media:content", "media:thumbnail"],
+  ["feed.entry.content", "feed.entry.summary"],
+);
+
+/**
+ * Reads an Atom text construct (<content>, <summary>) as HTML
+ *
+ * - type="text" (default): plain text, entities decoded
+ * - type="html": escaped HTML, entities decoded back to markup
+ * - type="xhtml": inline markup inside a wrapping <div>, kept as-is
+ */
+function readTextConstruct(value: unknown): string | undefined {
+  const raw = isXmlNode(value) ? value["#text"] : value;
+  if (typeof raw !== "string" || raw.trim().length === 0) {
+    return undefined;
+  }
+
+  if (xmlAttr(value, "type") === "xhtml") {
+    return raw
+      .trim()
+      .replace(/^<div[^>]*>/i, "")
+      .replace(/<\/div>$/i, "")
+      .trim();
+  }
+
+  return decodeXmlText(raw);
+}
+
+/**
+ * Picks the href of the best matching <link>
+ * rel defaults to "alternate" when the attribute is missing
+ */
+function findLink(links: unknown, rel: string): string | undefined {
+  const match = asArray(links).find(
+    (link) => (xmlAttr(link, "rel") ?? "alternate") === rel,
+  );
+  return xmlAttr(match, "href");
+}
+
+/**
+ * Joins the names of all <author> elements
+ */
+function extractAuthors(authors: unknown): string | undefined {
+  const names = asArray(authors)
+    .map((author) => (isXmlNode(author) ? xmlText(author.name) : undefined))
+    .filter((name): name is string => Boolean(name));
+
+  return names.length > 0 ? names.join(", ") : undefined;
+}
+
+/**
+ * Maps a single <entry> to ArticleData
+ */
+function mapEntry(
+  entry: XmlNode,
+  feedId: string,
+  feedAuthor: string | undefined,
+): ArticleData {
+  const title = xmlText(entry.title);
+  const link = findLink(entry.link, "alternate");
+
+  // Atom requires a permanent <id> - fall back to link like RSS does
+  const guid = xmlText(entry.id) || link || `${feedId}-${title}`;
+
+  // <published> is the original date; <updated> changes on every edit
+  const publishedDate =
+    parseDate(xmlText(entry.published)) ?? parseDate(xmlText(entry.updated));
+
+  const contentHtml = readTextConstruct(entry.content);
+  const summaryHtml = readTextConstruct(entry.summary);
+
+  // YouTube entries have no content - the description lives in media:group
+  const mediaDescription = extractMediaDescription(entry);
+
+  return {
+    guid,
+    title: title || "Untitled",
+    link: link || "",
+    content: contentHtml || summaryHtml,
+    summary:
+      stripHtml(summaryHtml) ||
+      stripHtml(contentHtml) ||
+      stripHtml(mediaDescription),
+    pubDate: publishedDate ?? new Date(),
+    undated: !publishedDate,
+    author: extractAuthors(entry.author) || feedAuthor,
+    categories: asArray(entry.category)
+      .map(
+        (category) => xmlAttr(category, "term") ?? xmlAttr(category, "label"),
+      )
+      .filter((category): category is string => Boolean(category)),
+    imageUrl: extractImageUrl(entry, contentHtml || summaryHtml),
+    enclosures: extractEnclosures(entry),
+  };
+}
+
+export const atomAdapter: FeedSourceAdapter = {
+  name: "Atom 1.0",
+
+  canParse(body) {
+    return getRootElementName(body) === "feed";
+  },
+
+  parse(body, feedId) {
+    const document = xmlParser.parse(body) as XmlNode;
+    const feed = document.feed;
+
+    if (!isXmlNode(feed)) {
+      throw new Error("Feed not recognized as Atom");
+    }
+
+    const metadata: FeedMetadata = {
+      title: xmlText(feed.title) || "Untitled Feed",
+      description: xmlText(feed.subtitle),
+      link: findLink(feed.link, "alternate"),
+      imageUrl: xmlText(feed.logo) || xmlText(feed.icon),
+      language: xmlAttr(feed, "xml:lang"),
+    };
+
+    const feedAuthor = extractAuthors(feed.author);
+    const entries = asArray(feed.entry).filter(isXmlNode);
+
+    return {
+      metadata,
+      articles: entries.map((entry) => mapEntry(entry, feedId, feedAuthor)),
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import type { FeedSourceAdapter, ParsedFeed } from "../types";
+import { atomAdapter } from "./atom";
+import { jsonFeedAdapter } from "./json-feed";
+import { rssAdapter } from "./rss";
+
+// ============================================
+// FEED SOURCE ADAPTER REGISTRY
+// ============================================
+
+/**
+ * Registered adapters, checked in order
+ * To support a new format, implement FeedSourceAdapter and add it here
+ */
+export const FEED_ADAPTERS: FeedSourceAdapter[] = [
+  jsonFeedAdapter,
+  atomAdapter,
+  rssAdapter,
+];
+
+/**
+ * Finds the adapter that understands a feed document
+ *
+ * @param body - Raw response body
+ * @param contentType - Content-Type response header, if any
+ * @returns Matching adapter, or undefined for unsupported formats
+ */
+export function getFeedAdapter(
+  body: string,
+  contentType: string | null,
+): FeedSourceAdapter | undefined {
+  return FEED_ADAPTERS.find((adapter) => adapter.canParse(body, contentType));
+}
+
+/**
+ * Parses a feed document with the matching adapter
+ *
+ * @throws Error if no adapter recognizes the document or parsing fails
+ */
+export function parseFeedBody(
+  body: string,
+  contentType: string | null,
+  feedId: string,
+): ParsedFeed {
+  const adapter = getFeedAdapter(body, contentType);
+
+  if (!adapter) {
+    throw new Error("Feed not recognized as RSS, Atom or JSON Feed");
+  }
+
+  return adapter.parse(body, feedId);
+}
@@ -0,0 +1,67 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { jsonFeedAdapter } from "./json-feed";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`../__fixtures__/adapters/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+describe("jsonFeedAdapter", () => {
+  const { metadata, articles } = jsonFeedAdapter.parse(
+    readFixture("feed.json"),
+    "feed-1",
+  );
+  const [post, textOnly] = articles;
+
+  it("recognizes JSON Feed documents", () => {
+    expect(
+      jsonFeedAdapter.canParse(readFixture("feed.json"), "application/json"),
+    ).toBe(true);
+    expect(jsonFeedAdapter.canParse(readFixture("rss.xml"), null)).toBe(false);
+  });
+
+  it("reads feed metadata", () => {
+    expect(metadata).toMatchObject({
+      title: "JSON & Co",
+      link: "https://json.example.net/",
+      imageUrl: "https://json.example.net/icon.png",
+    });
+  });
+
+  it("reads an item with HTML content and attachments", () => {
+    expect(post).toMatchObject({
+      guid: "42",
+      title: "It’s JSON",
+      link: "https://json.example.net/posts/42",
+      summary: "Hello world",
+      author: "Site Author",
+      categories: ["json"],
+      imageUrl: "https://json.example.net/hello.png",
+      undated: false,
+      enclosures: [
+        {
+          url: "https://json.example.net/42.mp3",
+          type: "audio/mpeg",
+          length: 1000,
+          duration: 90,
+        },
+      ],
+    });
+    expect(post.pubDate.toISOString()).toBe("2025-10-04T12:00:00.000Z");
+  });
+
+  it("falls back to external_url, content_text and a 1.0 author", () => {
+    expect(textOnly).toMatchObject({
+      guid: "no-date",
+      title: "Untitled",
+      link: "https://elsewhere.example.com/story",
+      content: "Just text",
+      summary: "Just text",
+      author: "Old Style",
+      undated: true,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import type {
+  ArticleData,
+  FeedMetadata,
+  FeedSourceAdapter,
+  MediaEnclosure,
+} from "../types";
+import { findInlineImage, toEnclosure } from "./media";
+import { parseDate, stripHtml } from "./utils";
+
+// ============================================
+// JSON FEED 1.1 ADAPTER
+// ============================================
+
+/**
+ * Subset of the JSON Feed 1.1 spec we read (https://jsonfeed.org/version/1.1)
+ * Version 1.0 documents are accepted too - they use `author` instead of `authors`
+ */
+interface JsonFeedAuthor {
+  name?: string;
+  url?: string;
+}
+
+interface JsonFeedAttachment {
+  url?: string;
+  mime_type?: string;
+  size_in_bytes?: number;
+  duration_in_seconds?: number;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor;
+  tags?: string[];
+  attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeedDocument {
+  version: string;
+  title?: string;
+  home_page_url?: string;
+  description?: string;
+  icon?: string;
+  favicon?: string;
+  language?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor;
+  items?: JsonFeedItem[];
+}
+
+const VERSION_PREFIX = "https://jsonfeed.org/version/";
+
+/**
+ * Joins author names from a 1.1 `authors` array or a 1.0 `author` object
+ */
+function extractAuthors(
+  authors: JsonFeedAuthor[] | undefined,
+  author: JsonFeedAuthor | undefined,
+): string | undefined {
+  const names = (authors ?? (author ? [author] : []))
+    .map((entry) => entry.name?.trim())
+    .filter((name): name is string => Boolean(name));
+
+  return names.length > 0 ? names.join(", ") : undefined;
+}
+
+/**
+ * Converts attachments to enclosures (podcast episodes, videos, ...)
+ */
+function extractAttachments(
+  attachments: JsonFeedAttachment[] | undefined,
+): MediaEnclosure[] {
+  return (attachments ?? [])
+    .map((attachment) =>
+      toEnclosure(
+        attachment.url,
+        attachment.mime_type,
+        attachment.size_in_bytes,
+        attachment.duration_in_seconds,
+      ),
+    )
+    .filter(
+      (enclosure): enclosure is MediaEnclosure => enclosure !== undefined,
+    );
+}
+
+/**
+ * Maps a single JSON Feed item to ArticleData
+ */
+function mapItem(
+  item: JsonFeedItem,
+  feedId: string,
+  feedAuthor: string | undefined,
+): ArticleData {
+  const link = item.url || item.external_url;
+
+  // id is required by the spec, but may be a number in older feeds
+  const guid =
+    (item.id !== undefined ? String(item.id) : undefined) ||
+    link ||
+    `${feedId}-${item.title}`;
+
+  const publishedDate =
+    parseDate(item.date_published) ?? parseDate(item.date_modified);
+
+  const enclosures = extractAttachments(item.attachments);
+
+  return {
+    guid,
+    title: item.title?.trim() || "Untitled",
+    link: link || "",
+    content: item.content_html || item.content_text,
+    summary:
+      item.summary?.trim() ||
+      item.content_text?.trim() ||
+      stripHtml(item.content_html),
+    pubDate: publishedDate ?? new Date(),
+    undated: !publishedDate,
+    author: extractAuthors(item.authors, item.author) || feedAuthor,
+    categories: (item.tags ?? [])
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0),
+    imageUrl:
+      item.image ||
+      item.banner_image ||
+      findInlineImage(item.content_html) ||
+      enclosures.find((enclosure) => enclosure.type?.startsWith("image/"))?.url,
+    enclosures: enclosures.filter(
+      (enclosure) => !enclosure.type?.startsWith("image/"),
+    ),
+  };
+}
+
+export const jsonFeedAdapter: FeedSourceAdapter = {
+  name: "JSON Feed 1.1",
+
+  canParse(body, contentType) {
+    const looksLikeJson =
+      contentType?.includes("json") || body.trimStart().startsWith("{");
+    return Boolean(looksLikeJson) && body.includes(VERSION_PREFIX);
+  },
+
+  parse(body, feedId) {
+    const document = JSON.parse(body) as JsonFeedDocument;
+
+    if (!document.version?.startsWith(VERSION_PREFIX)) {
+      throw new Error("Feed not recognized as JSON Feed");
+    }
+
+    const metadata: FeedMetadata = {
+      title: document.title?.trim() || "Untitled Feed",
+      description: document.description,
+      link: document.home_page_url,
+      imageUrl: document.icon || document.favicon,
+      language: document.language,
+    };
+
+    const feedAuthor = extractAuthors(document.authors, document.author);
+
+    return {
+      metadata,
+      articles: (document.items ?? []).map((item) =>
+        mapItem(item, feedId, feedAuthor),
+      ),
+    };
+  },
+};
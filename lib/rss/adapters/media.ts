@@ -0,0 +1,231 @@
+import type { MediaEnclosure } from "../types";
+import { asArray, isXmlNode, type XmlNode, xmlAttr, xmlText } from "./utils";
+
+// ============================================
+// MEDIA EXTRACTION
+// ============================================
+
+/**
+ * Largest file size stored for an enclosure (fits a 32-bit Int field)
+ */
+const MAX_ENCLOSURE_LENGTH = 2_147_483_647;
+
+/**
+ * Parses a positive integer attribute, ignoring junk like "0" or "-1"
+ */
+function parsePositiveInt(value: string | undefined): number | undefined {
+  const number = Number.parseInt(value ?? "", 10);
+  return number > 0 ? number : undefined;
+}
+
+/**
+ * Parses a media duration to seconds
+ *
+ * Accepts plain seconds ("3600", "3600.5") and clock formats
+ * ("1:02:03", "62:03") as used by itunes:duration.
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+
+  const seconds = parts.reduce(
+    (total, part) => total * 60 + Number.parseFloat(part),
+    0,
+  );
+  return seconds > 0 ? Math.round(seconds) : undefined;
+}
+
+/**
+ * Builds an enclosure, dropping values that can't be stored
+ */
+export function toEnclosure(
+  url: string | undefined,
+  type: string | undefined,
+  length: number | undefined,
+  duration: number | undefined,
+): MediaEnclosure | undefined {
+  if (!url || !/^https?:\/\//i.test(url)) {
+    return undefined;
+  }
+
+  return {
+    url,
+    type: type?.toLowerCase(),
+    length:
+      length && length > 0 && length <= MAX_ENCLOSURE_LENGTH
+        ? Math.round(length)
+        : undefined,
+    duration: duration && duration > 0 ? Math.round(duration) : undefined,
+  };
+}
+
+/**
+ * Returns true for enclosures that are a playable file rather than an image
+ */
+function isPlayable(enclosure: MediaEnclosure): boolean {
+  return !enclosure.type?.startsWith("image/");
+}
+
+/**
+ * Collects media:content elements, including those inside media:group
+ */
+function getMediaContents(node: XmlNode): XmlNode[] {
+  const groups = asArray(node["media:group"]).filter(isXmlNode);
+
+  return [node, ...groups]
+    .flatMap((parent) => asArray(parent["media:content"]))
+    .filter(isXmlNode);
+}
+
+/**
+ * Collects media:thumbnail URLs from an item, its media:group and its
+ * media:content elements (YouTube nests them in media:group)
+ */
+function getMediaThumbnails(node: XmlNode): string[] {
+  const groups = asArray(node["media:group"]).filter(isXmlNode);
+
+  return [node, ...groups, ...getMediaContents(node)]
+    .flatMap((parent) => asArray(parent["media:thumbnail"]))
+    .map((thumbnail) => xmlAttr(thumbnail, "url"))
+    .filter((url): url is string => Boolean(url));
+}
+
+/**
+ * Reads the media description (e.g. a YouTube video description)
+ * Used as the summary for items that have no description of their own
+ */
+export function extractMediaDescription(node: XmlNode): string | undefined {
+  const groups = asArray(node["media:group"]).filter(isXmlNode);
+
+  for (const parent of [node, ...groups]) {
+    const description = xmlText(parent["media:description"]);
+    if (description) {
+      return description;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects audio and video files from an RSS <item> or Atom <entry>
+ *
+ * Reads <enclosure> (RSS), <link rel="enclosure"> (Atom) and media:content
+ * (Media RSS, incl. media:group). itunes:duration fills in the playing time
+ * for podcast episodes. Images are left to extractImageUrl.
+ *
+ * @param node - Parsed <item> or <entry>
+ * @returns Playable enclosures without duplicate URLs
+ */
+export function extractEnclosures(node: XmlNode): MediaEnclosure[] {
+  const itemDuration = parseDuration(xmlText(node["itunes:duration"]));
+
+  const rssEnclosures = asArray(node.enclosure).map((enclosure) =>
+    toEnclosure(
+      xmlAttr(enclosure, "url"),
+      xmlAttr(enclosure, "type"),
+      parsePositiveInt(xmlAttr(enclosure, "length")),
+      itemDuration,
+    ),
+  );
+
+  const atomEnclosures = asArray(node.link)
+    .filter((link) => xmlAttr(link, "rel") === "enclosure")
+    .map((link) =>
+      toEnclosure(
+        xmlAttr(link, "href"),
+        xmlAttr(link, "type"),
+        parsePositiveInt(xmlAttr(link, "length")),
+        itemDuration,
+      ),
+    );
+
+  const mediaEnclosures = getMediaContents(node)
+    .filter((content) => xmlAttr(content, "medium") !== "image")
+    .map((content) =>
+      toEnclosure(
+        xmlAttr(content, "url"),
+        xmlAttr(content, "type") ??
+          (xmlAttr(content, "medium") === "video" ? "video/*" : undefined),
+        parsePositiveInt(xmlAttr(content, "fileSize")),
+        parsePositiveInt(xmlAttr(content, "duration")) ?? itemDuration,
+      ),
+    );
+
+  const seen = new Set<string>();
+  return [...rssEnclosures, ...atomEnclosures, ...mediaEnclosures].filter(
+    (enclosure): enclosure is MediaEnclosure => {
+      if (!enclosure || !isPlayable(enclosure) || seen.has(enclosure.url)) {
+        return false;
+      }
+      seen.add(enclosure.url);
+      return true;
+    },
+  );
+}
+
+/**
+ * Finds the first real image in an HTML fragment
+ * Skips 1x1 tracking pixels and data: URIs
+ */
+export function findInlineImage(html: string | undefined): string | undefined {
+  if (!html) {
+    return undefined;
+  }
+
+  for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+    if (/\b(width|height)=["']?[01]["'\s/>]/i.test(tag)) {
+      continue;
+    }
+    const src = /\bsrc=["']([^"']+)["']/i.exec(tag)?.[1];
+    if (src && /^https?:\/\//i.test(src)) {
+      return src;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Picks the best image for an RSS <item> or Atom <entry>
+ *
+ * In order of preference:
+ * 1. media:thumbnail (item, media:group or media:content)
+ * 2. media:content with medium="image" or an image/* type
+ * 3. itunes:image (podcast episode artwork)
+ * 4. An image enclosure (<enclosure> or <link rel="enclosure">)
+ * 5. The first <img> in the content
+ *
+ * @param node - Parsed <item> or <entry>
+ * @param contentHtml - The item's HTML content, for inline images
+ */
+export function extractImageUrl(
+  node: XmlNode,
+  contentHtml: string | undefined,
+): string | undefined {
+  const mediaImage = getMediaContents(node).find(
+    (content) =>
+      xmlAttr(content, "medium") === "image" ||
+      xmlAttr(content, "type")?.startsWith("image/"),
+  );
+
+  const imageEnclosure = [
+    ...asArray(node.enclosure),
+    ...asArray(node.link).filter(
+      (link) => xmlAttr(link, "rel") === "enclosure",
+    ),
+  ].find((enclosure) => xmlAttr(enclosure, "type")?.startsWith("image/"));
+
+  return (
+    getMediaThumbnails(node)[0] ??
+    xmlAttr(mediaImage, "url") ??
+    xmlAttr(node["itunes:image"], "href") ??
+    xmlAttr(imageEnclosure, "url") ??
+    xmlAttr(imageEnclosure, "href") ??
+    findInlineImage(contentHtml)
+  );
+}
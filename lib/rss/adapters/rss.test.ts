@@ -0,0 +1,79 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { rssAdapter } from "./rss";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`../__fixtures__/adapters/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+describe("rssAdapter", () => {
+  const { metadata, articles } = rssAdapter.parse(
+    readFixture("rss.xml"),
+    "feed-1",
+  );
+  const [post, episode] = articles;
+
+  it("recognizes RSS and RDF documents", () => {
+    expect(rssAdapter.canParse(readFixture("rss.xml"), null)).toBe(true);
+    expect(rssAdapter.canParse(readFixture("atom.xml"), null)).toBe(false);
+  });
+
+  it("reads channel metadata with decoded entities", () => {
+    expect(metadata).toEqual({
+      title: "T & Co's Blog",
+      description: "Notes from T & Co",
+      link: "https://blog.example.com/",
+      imageUrl: undefined,
+      language: "en-us",
+      refreshHintMinutes: 60,
+    });
+  });
+
+  it("decodes named and numeric character references in titles", () => {
+    expect(post.title).toBe("It’s here: café & more — really");
+  });
+
+  it("keeps CDATA text verbatim", () => {
+    expect(episode.title).toBe("Episode 2: <Tips> & Tricks");
+    expect(post.content).toBe(
+      '<p>The full post &amp; <img src="https://blog.example.com/cup.jpg" width="600"> a picture.</p>',
+    );
+  });
+
+  it("prefers content:encoded for content and the description for the summary", () => {
+    expect(post.summary).toBe("Short teaser with markup");
+    expect(post.imageUrl).toBe("https://blog.example.com/cup.jpg");
+  });
+
+  it("reads the guid, date, author and categories", () => {
+    expect(post).toMatchObject({
+      guid: "post-1",
+      link: "https://blog.example.com/its-here",
+      author: "Jane Doe",
+      categories: ["News", "Coffee"],
+      undated: false,
+    });
+    expect(post.pubDate.toISOString()).toBe("2025-10-01T09:30:00.000Z");
+  });
+
+  it("marks items without a date as undated", () => {
+    expect(episode.undated).toBe(true);
+    expect(episode.pubDate).toBeInstanceOf(Date);
+  });
+
+  it("reads enclosures, itunes:duration and media thumbnails", () => {
+    expect(episode.enclosures).toEqual([
+      {
+        url: "https://cdn.example.com/ep2.mp3",
+        type: "audio/mpeg",
+        length: 12345,
+        duration: 3723,
+      },
+    ]);
+    expect(episode.imageUrl).toBe("https://cdn.example.com/ep2.jpg");
+    expect(episode.summary).toBe("All about tips");
+  });
+});
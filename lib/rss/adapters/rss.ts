@@ -0,0 +1,164 @@
+import type { ArticleData, FeedMetadata, FeedSourceAdapter } from "../types";
+import {
+  extractEnclosures,
+  extractImageUrl,
+  extractMediaDescription,
+} from "./media";
+import {
+  asArray,
+  createXmlParser,
+  getRootElementName,
+  isXmlNode,
+  parseDate,
+  stripHtml,
+  type XmlNode,
+  xmlAttr,
+  xmlText,
+} from "./utils";
+
+// ============================================
+// RSS 2.0 ADAPTER
+// ============================================
+
+/**
+ * Also accepts RSS 0.9x and RSS 1.0 (RDF), which share the same item shape
+ */
+const xmlParser = createXmlParser([
+  "item",
+  "category",
+  "dc:subject",
+  "enclosure",
+  "media:content",
+  "media:thumbnail",
+]);
+
+/**
+ * Normalizes <category> / <dc:subject> values to a string array
+ * Categories can be plain text or elements with attributes like domain
+ */
+function extractCategories(item: XmlNode): string[] {
+  return [...asArray(item.category), ...asArray(item["dc:subject"])]
+    .map((category) => xmlText(category))
+    .filter((category): category is string => Boolean(category));
+}
+
+/**
+ * Maps a single <item> to ArticleData
+ */
+function mapItem(item: XmlNode, feedId: string): ArticleData {
+  const title = xmlText(item.title);
+  const link = xmlText(item.link) ?? xmlText(item["@_rdf:about"]);
+  const description = xmlText(item.description);
+  const encoded = xmlText(item["content:encoded"]);
+
+  // Use guid if available, fallback to link for deduplication
+  const guid = xmlText(item.guid) || link || `${feedId}-${title}`;
+
+  // Extract publication date with fallbacks (RSS 1.0 uses dc:date)
+  const publishedDate =
+    parseDate(xmlText(item.pubDate)) ?? parseDate(xmlText(item["dc:date"]));
+
+  // Prefer the full content:encoded body over the description teaser
+  const content = encoded || description;
+
+  // Summary is plain text - prefer the description over a content snippet
+  // (podcast and video items often only describe themselves in their media)
+  const summary =
+    stripHtml(description) ||
+    stripHtml(encoded) ||
+    stripHtml(xmlText(item["itunes:summary"])) ||
+    stripHtml(extractMediaDescription(item));
+
+  return {
+    guid,
+    title: title || "Untitled",
+    link: link || "",
+    content,
+    summary,
+    pubDate: publishedDate ?? new Date(),
+    undated: !publishedDate,
+    author: xmlText(item["dc:creator"]) || xmlText(item.author),
+    categories: extractCategories(item),
+    imageUrl: extractImageUrl(item, content),
+    enclosures: extractEnclosures(item),
+  };
+}
+
+/**
+ * Minutes per sy:updatePeriod value (RSS 1.0 Syndication module)
+ */
+const UPDATE_PERIOD_MINUTES: Record<string, number> = {
+  hourly: 60,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+  monthly: 30 * 24 * 60,
+  yearly: 365 * 24 * 60,
+};
+
+/**
+ * Reads the publisher's refresh hint in minutes
+ *
+ * <ttl> is the RSS 2.0 "cache for N minutes" hint. The Syndication module
+ * says the feed updates sy:updateFrequency times per sy:updatePeriod.
+ * If both are present the longer one wins.
+ */
+function extractRefreshHint(channel: XmlNode): number | undefined {
+  const hints: number[] = [];
+
+  const ttl = Number.parseInt(xmlText(channel.ttl) ?? "", 10);
+  if (ttl > 0) {
+    hints.push(ttl);
+  }
+
+  const period = xmlText(channel["sy:updatePeriod"])?.toLowerCase();
+  const periodMinutes = period ? UPDATE_PERIOD_MINUTES[period] : undefined;
+  if (periodMinutes) {
+    const frequency =
+      Number.parseInt(xmlText(channel["sy:updateFrequency"]) ?? "", 10) || 1;
+    hints.push(periodMinutes / Math.max(frequency, 1));
+  }
+
+  return hints.length > 0 ? Math.max(...hints) : undefined;
+}
+
+export const rssAdapter: FeedSourceAdapter = {
+  name: "RSS 2.0",
+
+  canParse(body) {
+    const root = getRootElementName(body);
+    return root === "rss" || root === "rdf:RDF";
+  },
+
+  parse(body, feedId) {
+    const document = xmlParser.parse(body) as XmlNode;
+    const rss = document.rss;
+    const rdf = document["rdf:RDF"];
+    const root = isXmlNode(rss) ? rss : isXmlNode(rdf) ? rdf : undefined;
+    const channel = root?.channel;
+
+    if (!root || !isXmlNode(channel)) {
+      throw new Error("Feed not recognized as RSS");
+    }
+
+    const image = channel.image ?? root.image;
+
+    const metadata: FeedMetadata = {
+      title: xmlText(channel.title) || "Untitled Feed",
+      description: xmlText(channel.description),
+      link: xmlText(channel.link),
+      imageUrl:
+        (isXmlNode(image) ? xmlText(image.url) : undefined) ??
+        xmlAttr(channel["itunes:image"], "href"),
+      language: xmlText(channel.language) || xmlText(channel["dc:language"]),
+      refreshHintMinutes: extractRefreshHint(channel),
+    };
+
+    // RSS 2.0 nests items in the channel, RSS 1.0 puts them at the root
+    const items = asArray(channel.item ?? root.item).filter(isXmlNode);
+
+    return {
+      metadata,
+      articles: items.map((item) => mapItem(item, feedId)),
+    };
+  },
+};
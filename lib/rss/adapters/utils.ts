@@ -0,0 +1,172 @@
+import { XMLParser } from "fast-xml-parser";
+
+// ============================================
+// SHARED ADAPTER UTILITIES
+// ============================================
+
+/**
+ * A parsed XML element as produced by fast-xml-parser
+ * Attributes are prefixed with "@_", text content lives in "#text"
+ */
+export type XmlNode = Record<string, unknown>;
+
+/**
+ * Creates an XML parser configured the way all feed adapters expect
+ *
+ * Values are kept as strings (no number/boolean coercion), character
+ * references (&#8217;, &#x2019;) are decoded, and the listed
+ * elements are always arrays, even when they appear once.
+ *
+ * @param arrayElements - Element names that may repeat
+ * @param stopNodes - Element paths whose inner markup is kept raw
+ */
+export function createXmlParser(
+  arrayElements: string[],
+  stopNodes: string[] = [],
+) {
+  const arrays = new Set(arrayElements);
+
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    htmlEntities: true,
+    stopNodes,
+    isArray: (name) => arrays.has(name),
+  });
+}
+
+/**
+ * Returns the name of the root element of an XML document
+ * Skips the XML declaration, comments and doctype
+ */
+export function getRootElementName(body: string): string | undefined {
+  return /<([a-z][\w:.-]*)/i.exec(body.slice(0, 4096))?.[1];
+}
+
+/**
+ * Wraps a single value in an array (or returns [] for missing values)
+ */
+export function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Returns true if the value is a parsed XML element
+ */
+export function isXmlNode(value: unknown): value is XmlNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the text content of a parsed XML value
+ * Handles plain strings as well as elements with attributes
+ */
+export function xmlText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return xmlText(value[0]);
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+  }
+
+  if (isXmlNode(value)) {
+    return xmlText(value["#text"]);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads an attribute from a parsed XML element
+ */
+export function xmlAttr(value: unknown, name: string): string | undefined {
+  if (!isXmlNode(value)) {
+    return undefined;
+  }
+  return xmlText(value[`@_${name}`]);
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decodes XML/HTML character entities (&amp;, &#39;, &#x27;, ...)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const codePoint =
+          entity[1].toLowerCase() === "x"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isNaN(codePoint)
+          ? match
+          : String.fromCodePoint(codePoint);
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+/**
+ * Decodes the raw inner text of an XML element kept by a stop node
+ * Entities outside CDATA sections are decoded, CDATA content is kept verbatim
+ */
+export function decodeXmlText(raw: string): string {
+  return raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? part.slice("<![CDATA[".length, -"]]>".length)
+        : decodeEntities(part),
+    )
+    .join("")
+    .trim();
+}
+
+/**
+ * Converts an HTML fragment to a short plain-text snippet
+ */
+export function stripHtml(html: string | undefined): string | undefined {
+  if (!html) {
+    return undefined;
+  }
+
+  const text = decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Parses a date string, returning undefined for missing or invalid dates
+ */
+export function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
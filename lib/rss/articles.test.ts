@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { bulkCreateRssArticles } from "./articles";
+import type { ArticleCreateData } from "./types";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    rssArticle: { findMany: vi.fn(), createMany: vi.fn() },
+    $runCommandRaw: vi.fn(),
+  },
+}));
+
+const findMany = vi.mocked(prisma.rssArticle.findMany);
+const createMany = vi.mocked(prisma.rssArticle.createMany);
+const runCommandRaw = vi.mocked(prisma.$runCommandRaw);
+
+const PODCAST = "65a1f0c2e4b0a1b2c3d4e5f6";
+const NEWS = "65a1f0c2e4b0a1b2c3d4e5f7";
+
+function episode(
+  number: number,
+  link: string,
+  sourceId = PODCAST,
+): ArticleCreateData {
+  return {
+    sourceId,
+    guid: `episode-${number}`,
+    title: `Episode ${number}`,
+    link,
+    summary: "New episode!",
+    pubDate: new Date(Date.UTC(2025, 0, number)),
+  };
+}
+
+type StoredStory = Awaited<ReturnType<typeof prisma.rssArticle.findMany>>;
+
+/**
+ * Stories the exact-match query finds; the SimHash query finds none
+ */
+function givenStoredStories(stories: Record<string, unknown>[]) {
+  findMany.mockResolvedValueOnce(stories as unknown as StoredStory);
+}
+
+function getCreatedStories() {
+  return createMany.mock.calls.flatMap(([args]) =>
+    Array.isArray(args?.data) ? args.data : [],
+  );
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  findMany.mockResolvedValue([]);
+  createMany.mockImplementation((async (args: { data: unknown[] }) => ({
+    count: args.data.length,
+  })) as never);
+});
+
+describe("bulkCreateRssArticles", () => {
+  it("keeps episodes that all link to the show's home page apart", async () => {
+    const result = await bulkCreateRssArticles([
+      episode(1, "https://pod.com/"),
+      episode(2, "https://pod.com/"),
+    ]);
+
+    expect(result).toMatchObject({ created: 2, updated: 0, skipped: 0 });
+    expect(getCreatedStories().map((story) => story.guid)).toEqual([
+      "episode-1",
+      "episode-2",
+    ]);
+    expect(getCreatedStories().map((story) => story.canonicalUrl)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("keeps items that share a show page in one batch apart", async () => {
+    const result = await bulkCreateRssArticles([
+      episode(1, "https://pod.com/show?utm_source=rss"),
+      episode(2, "https://pod.com/show"),
+    ]);
+
+    expect(result).toMatchObject({ created: 2, updated: 0 });
+    expect(runCommandRaw).not.toHaveBeenCalled();
+  });
+
+  it("doesn't merge a new item into a stored story of the same source with the same link", async () => {
+    givenStoredStories([
+      {
+        id: "65a1f0c2e4b0a1b2c3d4e500",
+        guid: "episode-1",
+        canonicalUrl: "https://pod.com/show",
+        sourceIds: [PODCAST],
+        aliasGuids: [],
+        sourceUrls: ["https://pod.com/show"],
+        simhash: null,
+        pubDate: new Date(Date.UTC(2025, 0, 1)),
+        enclosures: [],
+      },
+    ]);
+
+    const result = await bulkCreateRssArticles([
+      episode(2, "https://pod.com/show"),
+    ]);
+
+    expect(result).toMatchObject({ created: 1, updated: 0 });
+    expect(runCommandRaw).not.toHaveBeenCalled();
+  });
+
+  it("still merges the same story published by another source", async () => {
+    givenStoredStories([
+      {
+        id: "65a1f0c2e4b0a1b2c3d4e501",
+        guid: "news-story",
+        canonicalUrl: "https://news.com/2025/01/story",
+        sourceIds: [NEWS],
+        aliasGuids: [],
+        sourceUrls: ["https://news.com/2025/01/story"],
+        simhash: null,
+        pubDate: new Date(Date.UTC(2025, 0, 1)),
+        enclosures: [],
+      },
+    ]);
+
+    const result = await bulkCreateRssArticles([
+      {
+        ...episode(1, "https://news.com/amp/2025/01/story?utm_source=twitter"),
+        guid: "aggregator-copy",
+      },
+    ]);
+
+    expect(result).toMatchObject({ created: 0, updated: 1 });
+    expect(createMany).not.toHaveBeenCalled();
+    expect(runCommandRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps episodes with a shared link but different audio files apart", async () => {
+    givenStoredStories([
+      {
+        id: "65a1f0c2e4b0a1b2c3d4e502",
+        guid: "network-episode-1",
+        canonicalUrl: "https://pod.com/show",
+        sourceIds: [NEWS],
+        aliasGuids: [],
+        sourceUrls: ["https://pod.com/show"],
+        simhash: null,
+        pubDate: new Date(Date.UTC(2025, 0, 1)),
+        enclosures: [{ url: "https://cdn.pod.com/episode-1.mp3" }],
+      },
+    ]);
+
+    const result = await bulkCreateRssArticles([
+      {
+        ...episode(2, "https://pod.com/show"),
+        enclosures: [
+          { url: "https://cdn.pod.com/episode-2.mp3", type: "audio/mpeg" },
+        ],
+      },
+    ]);
+
+    expect(result).toMatchObject({ created: 1, updated: 0 });
+    expect(runCommandRaw).not.toHaveBeenCalled();
+  });
+
+  it("merges the same episode published by another feed", async () => {
+    givenStoredStories([
+      {
+        id: "65a1f0c2e4b0a1b2c3d4e503",
+        guid: "network-episode-1",
+        canonicalUrl: "https://pod.com/show",
+        sourceIds: [NEWS],
+        aliasGuids: [],
+        sourceUrls: ["https://pod.com/show"],
+        simhash: null,
+        pubDate: new Date(Date.UTC(2025, 0, 1)),
+        enclosures: [{ url: "https://cdn.pod.com/episode-1.mp3" }],
+      },
+    ]);
+
+    const result = await bulkCreateRssArticles([
+      {
+        ...episode(1, "https://pod.com/show"),
+        enclosures: [{ url: "https://cdn.pod.com/episode-1.mp3" }],
+      },
+    ]);
+
+    expect(result).toMatchObject({ created: 0, updated: 1 });
+  });
+
+  it("keeps episodes with the same boilerplate description but different audio apart", async () => {
+    const description =
+      "Join our hosts for another weekly conversation about technology, science and the stories shaping the future of the internet";
+
+    const result = await bulkCreateRssArticles(
+      [1, 2].map((number) => ({
+        ...episode(number, `https://pod.com/?p=${number}`),
+        title: "The Weekly Tech Show",
+        summary: description,
+        enclosures: [{ url: `https://cdn.pod.com/episode-${number}.mp3` }],
+      })),
+    );
+
+    expect(result).toMatchObject({ created: 2, updated: 0, skipped: 0 });
+  });
+
+  it("keeps a templated item apart from the same source's earlier one", async () => {
+    const summary =
+      "Your daily roundup of the top stories in technology, business and science, curated by our editors every morning";
+
+    const result = await bulkCreateRssArticles(
+      [18, 19].map((day) => ({
+        sourceId: NEWS,
+        guid: `digest-${day}`,
+        title: `Daily digest for October ${day}`,
+        link: `https://news.com/digest/${day}`,
+        summary,
+        pubDate: new Date(Date.UTC(2025, 9, day)),
+      })),
+    );
+
+    expect(result).toMatchObject({ created: 2, updated: 0, skipped: 0 });
+    expect(findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          NOT: { sourceIds: { has: NEWS } },
+        }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,671 @@
+import {
+  isPrismaError,
+  wrapDatabaseOperation,
+} from "@/lib/database/error-handler";
+import {
+  ARTICLE_ORDER_BY_DATE_DESC,
+  ARTICLE_WITH_SOURCE_INCLUDE,
+  STORY_MATCH_SELECT,
+} from "@/lib/database/prisma-helpers";
+import { prisma } from "@/lib/prisma";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import {
+  findClosestBySimhash,
+  findSharedUrls,
+  findUrlMatch,
+  getArticleFingerprint,
+  isSameMedia,
+  NEAR_DUPLICATE_WINDOW,
+} from "./dedup";
+import { createArticleFilter } from "./filters";
+import { fetchFullText } from "./full-text";
+import type {
+  ArticleCreateData,
+  ArticleFingerprint,
+  BulkOperationResult,
+  FeedFilterRule,
+} from "./types";
+
+// ============================================
+// RSS ARTICLES
+// ============================================
+//
+// Written by feed refreshes and read by newsletter generation. Kept out of
+// actions/ so storing, re-parenting and crawling articles can't be
+// triggered from the client.
+
+/**
+ * Maximum number of article pages fetched per feed refresh
+ */
+const FULL_TEXT_BATCH_LIMIT = 20;
+
+/**
+ * Number of article pages fetched at the same time
+ */
+const FULL_TEXT_CONCURRENCY = 3;
+
+/**
+ * Builds the document for a new story from an incoming article
+ */
+function toStoryCreateInput(
+  data: ArticleCreateData,
+  fingerprint: ArticleFingerprint,
+) {
+  return {
+    sourceId: data.sourceId,
+    guid: data.guid,
+    sourceIds: [data.sourceId],
+    aliasGuids: [] as string[],
+    sourceUrls: fingerprint.canonicalUrl ? [fingerprint.canonicalUrl] : [],
+    canonicalUrl: fingerprint.canonicalUrl,
+    simhash: fingerprint.simhash,
+    simhashBands: fingerprint.simhashBands,
+    title: data.title,
+    link: data.link,
+    content: data.content,
+    contentMarkdown: data.contentMarkdown,
+    summary: data.summary,
+    pubDate: data.pubDate,
+    author: data.author,
+    categories: data.categories || [],
+    imageUrl: data.imageUrl,
+    enclosures: data.enclosures ?? [],
+  };
+}
+
+/**
+ * Finds the stored story an incoming article belongs to
+ *
+ * Matches, in order:
+ * 1. The exact GUID, or a GUID merged into a story earlier
+ * 2. The canonical URL (tracking parameters and AMP paths removed), if
+ *    it identifies a single story of another source (see findUrlMatch)
+ * 3. A SimHash within SIMHASH_MAX_DISTANCE bits, published within
+ *    NEAR_DUPLICATE_WINDOW, by another source (candidates found via
+ *    shared SimHash bands)
+ *
+ * URL and SimHash matches are skipped for items with a different media
+ * file (see isSameMedia), so podcast episodes stay separate.
+ */
+async function findMatchingStory(
+  data: ArticleCreateData,
+  fingerprint: ArticleFingerprint,
+) {
+  const exact = await prisma.rssArticle.findFirst({
+    where: {
+      OR: [{ guid: data.guid }, { aliasGuids: { has: data.guid } }],
+    },
+    select: STORY_MATCH_SELECT,
+  });
+
+  if (exact) {
+    return exact;
+  }
+
+  if (fingerprint.canonicalUrl) {
+    const byUrl = findUrlMatch(
+      await prisma.rssArticle.findMany({
+        where: { canonicalUrl: fingerprint.canonicalUrl },
+        select: STORY_MATCH_SELECT,
+        take: 2,
+      }),
+      data.sourceId,
+    );
+    if (byUrl && isSameMedia(byUrl.enclosures, data.enclosures)) {
+      return byUrl;
+    }
+  }
+
+  if (!fingerprint.simhash) {
+    return null;
+  }
+
+  const candidates = await prisma.rssArticle.findMany({
+    where: {
+      simhashBands: { hasSome: fingerprint.simhashBands },
+      pubDate: {
+        gte: new Date(data.pubDate.getTime() - NEAR_DUPLICATE_WINDOW),
+        lte: new Date(data.pubDate.getTime() + NEAR_DUPLICATE_WINDOW),
+      },
+      NOT: { sourceIds: { has: data.sourceId } },
+    },
+    select: STORY_MATCH_SELECT,
+  });
+
+  return findClosestBySimhash(
+    candidates.filter((story) =>
+      isSameMedia(story.enclosures, data.enclosures),
+    ),
+    fingerprint.simhash,
+    data.pubDate,
+    data.sourceId,
+  );
+}
+
+/**
+ * Creates a single RSS article with automatic deduplication
+ *
+ * Articles are grouped into stories: the same article under another GUID,
+ * a tracked/AMP link, or a near-identical syndicated copy is merged into
+ * the existing story instead of being stored again. The story records
+ * every feed source (sourceIds), GUID (aliasGuids) and outlet URL
+ * (sourceUrls) it was seen with, so sourceCount reflects real
+ * cross-source coverage.
+ */
+export async function createRssArticle(data: ArticleCreateData) {
+  return wrapDatabaseOperation(async () => {
+    const fingerprint = getArticleFingerprint(data);
+
+    // First, try to find an existing story
+    const existing = await findMatchingStory(data, fingerprint);
+
+    if (existing) {
+      // Only record sources the story doesn't know yet
+      const isNewSource = !existing.sourceIds.includes(data.sourceId);
+      const isNewGuid =
+        data.guid !== existing.guid && !existing.aliasGuids.includes(data.guid);
+      const isNewUrl =
+        fingerprint.canonicalUrl !== undefined &&
+        !existing.sourceUrls.includes(fingerprint.canonicalUrl);
+
+      if (isNewSource || isNewGuid || isNewUrl) {
+        return await prisma.rssArticle.update({
+          where: { id: existing.id },
+          data: {
+            ...(isNewSource && { sourceIds: { push: data.sourceId } }),
+            ...(isNewGuid && { aliasGuids: { push: data.guid } }),
+            ...(isNewUrl && {
+              sourceUrls: { push: fingerprint.canonicalUrl },
+            }),
+          },
+        });
+      }
+      // Return existing story if every source is already recorded
+      return await prisma.rssArticle.findUnique({
+        where: { id: existing.id },
+      });
+    }
+
+    // Article doesn't exist - create new story
+    return await prisma.rssArticle.create({
+      data: toStoryCreateInput(data, fingerprint),
+    });
+  }, "create RSS article");
+}
+
+/**
+ * Matches and writes one batch of articles with a fixed number of queries
+ *
+ * 1. One query finds stories by GUID, merged GUID or canonical URL
+ * 2. One query finds near-duplicate candidates by SimHash band
+ * 3. New stories are inserted with a single createMany
+ * 4. New sources are added to existing stories with a single raw
+ *    $addToSet bulk write
+ *
+ * Articles that repeat within the batch are merged in memory first. A
+ * link several of the batch's items share (see findSharedUrls) isn't
+ * used for matching.
+ */
+async function upsertArticleBatch(
+  articles: ArticleCreateData[],
+): Promise<BulkOperationResult> {
+  const results: BulkOperationResult = {
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+  };
+
+  const fingerprinted = articles.map((data) => ({
+    data,
+    fingerprint: getArticleFingerprint(data),
+  }));
+  const sharedUrls = findSharedUrls(
+    fingerprinted.map(({ data, fingerprint }) => ({
+      sourceId: data.sourceId,
+      guid: data.guid,
+      canonicalUrl: fingerprint.canonicalUrl,
+    })),
+  );
+  const pending = fingerprinted.map(({ data, fingerprint }) => ({
+    data,
+    fingerprint:
+      fingerprint.canonicalUrl && sharedUrls.has(fingerprint.canonicalUrl)
+        ? { ...fingerprint, canonicalUrl: undefined }
+        : fingerprint,
+  }));
+
+  const guids = [...new Set(pending.map(({ data }) => data.guid))];
+  const canonicalUrls = [
+    ...new Set(
+      pending
+        .map(({ fingerprint }) => fingerprint.canonicalUrl)
+        .filter((url): url is string => url !== undefined),
+    ),
+  ];
+
+  // 1. Exact matches: GUID, merged GUID or canonical URL
+  const stored = await prisma.rssArticle.findMany({
+    where: {
+      OR: [
+        { guid: { in: guids } },
+        { aliasGuids: { hasSome: guids } },
+        { canonicalUrl: { in: canonicalUrls } },
+      ],
+    },
+    select: STORY_MATCH_SELECT,
+  });
+
+  type StoredStory = (typeof stored)[number];
+  const byGuid = new Map<string, StoredStory>();
+  const byUrl = new Map<string, StoredStory[]>();
+  for (const story of stored) {
+    for (const guid of [story.guid, ...story.aliasGuids]) {
+      byGuid.set(guid, story);
+    }
+    if (story.canonicalUrl) {
+      byUrl.set(story.canonicalUrl, [
+        ...(byUrl.get(story.canonicalUrl) ?? []),
+        story,
+      ]);
+    }
+  }
+
+  const findStoredByUrl = (data: ArticleCreateData, url?: string) => {
+    const story = url
+      ? findUrlMatch(byUrl.get(url) ?? [], data.sourceId)
+      : null;
+    return story && isSameMedia(story.enclosures, data.enclosures)
+      ? story
+      : null;
+  };
+
+  // 2. Near-duplicate candidates for everything without an exact match
+  const unmatched = pending.filter(
+    ({ data, fingerprint }) =>
+      fingerprint.simhash &&
+      !byGuid.has(data.guid) &&
+      !findStoredByUrl(data, fingerprint.canonicalUrl),
+  );
+
+  let candidates: StoredStory[] = [];
+  if (unmatched.length > 0) {
+    const times = unmatched.map(({ data }) => data.pubDate.getTime());
+    // Batches usually hold one source's items; its own stories never match
+    const batchSources = new Set(unmatched.map(({ data }) => data.sourceId));
+    candidates = await prisma.rssArticle.findMany({
+      where: {
+        simhashBands: {
+          hasSome: [
+            ...new Set(
+              unmatched.flatMap(({ fingerprint }) => fingerprint.simhashBands),
+            ),
+          ],
+        },
+        pubDate: {
+          gte: new Date(Math.min(...times) - NEAR_DUPLICATE_WINDOW),
+          lte: new Date(Math.max(...times) + NEAR_DUPLICATE_WINDOW),
+        },
+        ...(batchSources.size === 1 && {
+          NOT: { sourceIds: { has: unmatched[0].data.sourceId } },
+        }),
+      },
+      select: STORY_MATCH_SELECT,
+    });
+  }
+
+  // Match every article to an existing story, a story created earlier in
+  // this batch, or a new story
+  const newStories: ReturnType<typeof toStoryCreateInput>[] = [];
+  const storyUpdates = new Map<
+    string,
+    { sourceIds: Set<string>; guids: Set<string>; urls: Set<string> }
+  >();
+
+  for (const { data, fingerprint } of pending) {
+    const url = fingerprint.canonicalUrl;
+
+    const existing =
+      byGuid.get(data.guid) ??
+      findStoredByUrl(data, url) ??
+      (fingerprint.simhash
+        ? findClosestBySimhash(
+            candidates.filter((story) =>
+              isSameMedia(story.enclosures, data.enclosures),
+            ),
+            fingerprint.simhash,
+            data.pubDate,
+            data.sourceId,
+          )
+        : null);
+
+    const batchStory = existing
+      ? undefined
+      : newStories.find(
+          (story) =>
+            story.guid === data.guid ||
+            story.aliasGuids.includes(data.guid) ||
+            (isSameMedia(story.enclosures, data.enclosures) &&
+              ((url !== undefined &&
+                story.canonicalUrl === url &&
+                !story.sourceIds.includes(data.sourceId)) ||
+                (fingerprint.simhash !== undefined &&
+                  findClosestBySimhash(
+                    [story],
+                    fingerprint.simhash,
+                    data.pubDate,
+                    data.sourceId,
+                  ) !== null))),
+        );
+
+    if (batchStory) {
+      // Merge into a story that will be created by this batch
+      const isNewSource = !batchStory.sourceIds.includes(data.sourceId);
+      const isNewGuid =
+        data.guid !== batchStory.guid &&
+        !batchStory.aliasGuids.includes(data.guid);
+      const isNewUrl =
+        url !== undefined && !batchStory.sourceUrls.includes(url);
+
+      if (isNewSource) {
+        batchStory.sourceIds.push(data.sourceId);
+      }
+      if (isNewGuid) {
+        batchStory.aliasGuids.push(data.guid);
+      }
+      if (isNewUrl && url) {
+        batchStory.sourceUrls.push(url);
+      }
+
+      if (isNewSource || isNewGuid || isNewUrl) {
+        results.updated++;
+      } else {
+        results.skipped++;
+      }
+      continue;
+    }
+
+    if (!existing) {
+      newStories.push(toStoryCreateInput(data, fingerprint));
+      continue;
+    }
+
+    // Only record sources the story doesn't know yet
+    const update = storyUpdates.get(existing.id) ?? {
+      sourceIds: new Set<string>(),
+      guids: new Set<string>(),
+      urls: new Set<string>(),
+    };
+
+    const isNewSource =
+      !existing.sourceIds.includes(data.sourceId) &&
+      !update.sourceIds.has(data.sourceId);
+    const isNewGuid =
+      data.guid !== existing.guid &&
+      !existing.aliasGuids.includes(data.guid) &&
+      !update.guids.has(data.guid);
+    const isNewUrl =
+      url !== undefined &&
+      !existing.sourceUrls.includes(url) &&
+      !update.urls.has(url);
+
+    if (!isNewSource && !isNewGuid && !isNewUrl) {
+      results.skipped++;
+      continue;
+    }
+
+    if (isNewSource) {
+      update.sourceIds.add(data.sourceId);
+    }
+    if (isNewGuid) {
+      update.guids.add(data.guid);
+    }
+    if (isNewUrl && url) {
+      update.urls.add(url);
+    }
+    storyUpdates.set(existing.id, update);
+    results.updated++;
+  }
+
+  // 3. Insert all new stories at once
+  if (newStories.length > 0) {
+    const { count } = await prisma.rssArticle.createMany({ data: newStories });
+    results.created += count;
+  }
+
+  // 4. Add new sources to existing stories in one bulk write
+  // MongoDB-specific: $addToSet keeps the arrays free of duplicates
+  if (storyUpdates.size > 0) {
+    await prisma.$runCommandRaw({
+      update: "RssArticle",
+      updates: [...storyUpdates].map(([id, update]) => ({
+        q: { _id: { $oid: id } },
+        u: {
+          $addToSet: {
+            sourceIds: {
+              $each: [...update.sourceIds].map((sourceId) => ({
+                $oid: sourceId,
+              })),
+            },
+            aliasGuids: { $each: [...update.guids] },
+            sourceUrls: { $each: [...update.urls] },
+          },
+          $currentDate: { updatedAt: true },
+        },
+      })),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Bulk creates multiple RSS articles, merging duplicates into existing stories
+ *
+ * Uses a constant number of queries per batch (see upsertArticleBatch)
+ * instead of several round trips per article. Counts are per input article:
+ * - created: stored as a new story
+ * - updated: merged into a story and added a new source, GUID or URL to it
+ * - skipped: already fully recorded
+ * - errors: the batch could not be written
+ */
+export async function bulkCreateRssArticles(
+  articles: ArticleCreateData[],
+): Promise<BulkOperationResult> {
+  if (articles.length === 0) {
+    return { created: 0, updated: 0, skipped: 0, errors: 0 };
+  }
+
+  try {
+    return await upsertArticleBatch(articles);
+  } catch (error) {
+    // Another refresh inserted some of the same GUIDs in the meantime -
+    // match the batch again so those become updates instead of duplicates
+    if (isPrismaError(error) && error.code === "P2002") {
+      try {
+        return await upsertArticleBatch(articles);
+      } catch (retryError) {
+        console.error("Failed to store articles after retry:", retryError);
+      }
+    } else {
+      console.error("Failed to store articles:", error);
+    }
+
+    return { created: 0, updated: 0, skipped: 0, errors: articles.length };
+  }
+}
+
+/**
+ * Counts the stories a feed source has published
+ */
+export async function countArticlesBySource(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    return await prisma.rssArticle.count({
+      where: { sourceIds: { has: sourceId } },
+    });
+  }, "count articles by source");
+}
+
+/**
+ * Adds a second source to every story of a source
+ *
+ * Used when a feed moves to a new URL, so the new source keeps the old
+ * one's history. MongoDB-specific: $addToSet in a single multi-update.
+ */
+export async function attachSourceArticles(
+  fromSourceId: string,
+  toSourceId: string,
+) {
+  return wrapDatabaseOperation(async () => {
+    await prisma.$runCommandRaw({
+      update: "RssArticle",
+      updates: [
+        {
+          q: { sourceIds: { $oid: fromSourceId } },
+          u: {
+            $addToSet: { sourceIds: { $oid: toSourceId } },
+            $currentDate: { updatedAt: true },
+          },
+          multi: true,
+        },
+      ],
+    });
+  }, "attach source articles");
+}
+
+/**
+ * Extracts full text for a source's newest articles that haven't been tried yet
+ *
+ * Fetches each article's link (a few at a time), runs Readability on it and
+ * stores the clean text. fullTextFetchedAt is set on every attempt, so pages
+ * that fail, opt out via robots, or yield nothing aren't fetched again.
+ *
+ * @param sourceId - Feed source whose articles should be extracted
+ * @returns Counts of extracted, skipped and failed articles
+ */
+export async function extractFullTextForSource(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    const articles = await prisma.rssArticle.findMany({
+      where: {
+        sourceIds: { has: sourceId },
+        fullTextFetchedAt: { isSet: false },
+      },
+      select: { id: true, link: true },
+      orderBy: ARTICLE_ORDER_BY_DATE_DESC,
+      take: FULL_TEXT_BATCH_LIMIT,
+    });
+
+    const results = await mapWithConcurrency(
+      articles,
+      FULL_TEXT_CONCURRENCY,
+      async (article) => {
+        let fullText: string | null = null;
+        try {
+          fullText = await fetchFullText(article.link);
+        } finally {
+          await prisma.rssArticle.update({
+            where: { id: article.id },
+            data: { fullText, fullTextFetchedAt: new Date() },
+          });
+        }
+        return fullText;
+      },
+    );
+
+    const extracted = results.filter(
+      (r) => r.status === "fulfilled" && r.value !== null,
+    ).length;
+    const failed = results.filter((r) => r.status === "rejected").length;
+
+    return {
+      extracted,
+      skipped: results.length - extracted - failed,
+      failed,
+    };
+  }, "extract full text");
+}
+
+/**
+ * Most pages of articles read while filling a filtered selection
+ * Stops a feed whose rules drop nearly everything from scanning its
+ * whole history.
+ */
+const MAX_FILTER_PAGES = 5;
+
+/**
+ * Fetches articles by feed sources and date range with importance scoring
+ * Importance is calculated by the number of outlets that published the story
+ *
+ * When filter rules are given, articles are read page by page and kept if
+ * any selected source they appear in accepts them (see lib/rss/filters.ts),
+ * until `limit` articles are found.
+ *
+ * @param filterRulesBySource - Each source's filter rules; sources without
+ *   rules accept every article
+ */
+export async function getArticlesBySourcesAndDateRange(
+  sourceIds: string[],
+  startDate: Date,
+  endDate: Date,
+  limit = 100,
+  filterRulesBySource: Record<string, FeedFilterRule[]> = {},
+) {
+  return wrapDatabaseOperation(async () => {
+    const filters = new Map(
+      Object.entries(filterRulesBySource)
+        .filter(([, rules]) => rules.length > 0)
+        .map(([sourceId, rules]) => [sourceId, createArticleFilter(rules)]),
+    );
+    const selected = new Set(sourceIds);
+
+    const findPage = (skip: number) =>
+      prisma.rssArticle.findMany({
+        where: {
+          sourceIds: {
+            hasSome: sourceIds,
+          },
+          pubDate: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+        include: ARTICLE_WITH_SOURCE_INCLUDE,
+        orderBy: ARTICLE_ORDER_BY_DATE_DESC,
+        skip,
+        take: limit,
+      });
+
+    type ArticleWithSource = Awaited<ReturnType<typeof findPage>>[number];
+
+    const isAccepted = (article: ArticleWithSource) =>
+      article.sourceIds.some((sourceId) => {
+        if (!selected.has(sourceId)) {
+          return false;
+        }
+        const filter = filters.get(sourceId);
+        return !filter || filter(article).length === 0;
+      });
+
+    const maxPages = filters.size > 0 ? MAX_FILTER_PAGES : 1;
+    const articles: ArticleWithSource[] = [];
+
+    for (let page = 0; page < maxPages; page++) {
+      const batch = await findPage(page * limit);
+      articles.push(...batch.filter(isAccepted));
+
+      if (articles.length >= limit || batch.length < limit) {
+        break;
+      }
+    }
+
+    // Add sourceCount for reference: distinct outlets that published the story
+    // (articles without sourceUrls fall back to their source count)
+    return articles.slice(0, limit).map((article) => ({
+      ...article,
+      sourceCount:
+        article.sourceUrls.length > 0
+          ? article.sourceUrls.length
+          : article.sourceIds.length,
+    }));
+  }, "fetch articles by sources and date range");
+}
@@ -0,0 +1,187 @@
+import sanitizeHtml from "sanitize-html";
+import TurndownService from "turndown";
+import type { ArticleData } from "./types";
+
+// ============================================
+// ARTICLE CONTENT NORMALIZATION
+// ============================================
+
+/**
+ * Hosts whose images are tracking pixels / analytics beacons
+ */
+const TRACKER_HOSTS = [
+  "feeds.feedburner.com",
+  "feedproxy.google.com",
+  "pixel.wp.com",
+  "stats.wordpress.com",
+  "www.google-analytics.com",
+  "pixel.quantserve.com",
+  "counter.theconversation.com",
+];
+
+/**
+ * Formatting kept in sanitized article HTML
+ * Everything else (scripts, iframes, forms, inline styles, classes) is removed.
+ */
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p",
+    "br",
+    "hr",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "a",
+    "strong",
+    "b",
+    "em",
+    "i",
+    "u",
+    "s",
+    "sub",
+    "sup",
+    "blockquote",
+    "q",
+    "cite",
+    "code",
+    "pre",
+    "ul",
+    "ol",
+    "li",
+    "dl",
+    "dt",
+    "dd",
+    "img",
+    "figure",
+    "figcaption",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel", "target"],
+    img: ["src", "alt", "title"],
+    th: ["colspan", "rowspan"],
+    td: ["colspan", "rowspan"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", {
+      rel: "nofollow noopener noreferrer",
+      target: "_blank",
+    }),
+  },
+  exclusiveFilter: (frame) => frame.tag === "img" && isTrackingPixel(frame),
+};
+
+/**
+ * Returns true for 1x1 images and images served by known trackers
+ */
+function isTrackingPixel(frame: sanitizeHtml.IFrame): boolean {
+  const { src, width, height } = frame.attribs;
+
+  if (width === "1" || height === "1" || width === "0" || height === "0") {
+    return true;
+  }
+
+  try {
+    return TRACKER_HOSTS.includes(new URL(src ?? "").hostname);
+  } catch {
+    return !src;
+  }
+}
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+});
+
+// Images add noise to prompts; keep the alt text only
+turndown.addRule("imageAltText", {
+  filter: "img",
+  replacement: (_content, node) => {
+    const alt = (node as HTMLElement).getAttribute("alt")?.trim();
+    return alt ? `[Image: ${alt}]` : "";
+  },
+});
+
+/**
+ * Removes scripts, styles, tracking pixels and unsafe attributes from
+ * article HTML, keeping only basic formatting
+ *
+ * @param html - Raw HTML from the feed
+ * @returns Sanitized HTML, or undefined if nothing is left
+ */
+export function sanitizeArticleHtml(
+  html: string | undefined,
+): string | undefined {
+  if (!html) {
+    return undefined;
+  }
+  const clean = sanitizeHtml(html, SANITIZE_OPTIONS).trim();
+  return clean.length > 0 ? clean : undefined;
+}
+
+/**
+ * Converts (sanitized) article HTML to Markdown
+ *
+ * Markdown keeps headings, lists and links readable as plain text,
+ * which makes it a good format for AI prompts.
+ *
+ * @param html - Article HTML (sanitized first if it isn't already)
+ * @returns Markdown text, or undefined if the content is empty
+ */
+export function htmlToMarkdown(html: string | undefined): string | undefined {
+  const clean = sanitizeArticleHtml(html);
+  if (!clean) {
+    return undefined;
+  }
+
+  const markdown = turndown
+    .turndown(clean)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return markdown.length > 0 ? markdown : undefined;
+}
+
+/**
+ * Shortens text to a maximum length without cutting words in half
+ *
+ * @param text - Plain text or Markdown
+ * @param maxLength - Maximum length including the ellipsis
+ */
+export function truncateText(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= maxLength) {
+    return flat;
+  }
+
+  const cut = flat.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Normalizes an article's content at ingest
+ *
+ * Stores a sanitized HTML version (safe to render) and a Markdown
+ * version (used in prompts) instead of the feed's raw HTML.
+ */
+export function normalizeArticleContent(article: ArticleData): ArticleData {
+  const content = sanitizeArticleHtml(article.content);
+
+  return {
+    ...article,
+    content,
+    contentMarkdown: htmlToMarkdown(content),
+  };
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalizeUrl,
+  findClosestBySimhash,
+  findSharedUrls,
+  findUrlMatch,
+  getArticleFingerprint,
+  isSameMedia,
+  isSiteRootUrl,
+} from "./dedup";
+
+describe("canonicalizeUrl", () => {
+  it("drops tracking parameters, AMP variants and www", () => {
+    expect(
+      canonicalizeUrl(
+        "https://www.example.com/amp/news/story/?utm_source=rss&id=7&fbclid=x#top",
+      ),
+    ).toBe("https://example.com/news/story?id=7");
+    expect(canonicalizeUrl("http://amp.example.com/news/story.amp.html")).toBe(
+      "https://example.com/news/story.html",
+    );
+  });
+
+  it("rejects links that aren't http(s)", () => {
+    expect(canonicalizeUrl("mailto:editor@example.com")).toBeUndefined();
+    expect(canonicalizeUrl("not a url")).toBeUndefined();
+  });
+});
+
+describe("isSiteRootUrl", () => {
+  it("recognizes a home page without a query", () => {
+    expect(isSiteRootUrl("https://pod.com/")).toBe(true);
+    expect(isSiteRootUrl("https://pod.com/?episode=12")).toBe(false);
+    expect(isSiteRootUrl("https://pod.com/episodes/12")).toBe(false);
+  });
+});
+
+describe("getArticleFingerprint", () => {
+  it("gives items linking to the home page no canonical URL", () => {
+    expect(
+      getArticleFingerprint({
+        title: "Episode 12",
+        link: "https://www.pod.com/?utm_source=rss",
+      }).canonicalUrl,
+    ).toBeUndefined();
+  });
+
+  it("keeps the canonical URL of item pages", () => {
+    expect(
+      getArticleFingerprint({
+        title: "Episode 12",
+        link: "https://pod.com/episodes/12?utm_medium=feed",
+      }).canonicalUrl,
+    ).toBe("https://pod.com/episodes/12");
+  });
+});
+
+describe("findSharedUrls", () => {
+  it("finds links several items of one source share", () => {
+    expect(
+      findSharedUrls([
+        { sourceId: "a", guid: "ep-1", canonicalUrl: "https://pod.com/show" },
+        { sourceId: "a", guid: "ep-2", canonicalUrl: "https://pod.com/show" },
+        { sourceId: "a", guid: "ep-3", canonicalUrl: "https://pod.com/ep-3" },
+      ]),
+    ).toEqual(new Set(["https://pod.com/show"]));
+  });
+
+  it("ignores the same item repeated and links shared across sources", () => {
+    expect(
+      findSharedUrls([
+        { sourceId: "a", guid: "story", canonicalUrl: "https://news.com/s" },
+        { sourceId: "a", guid: "story", canonicalUrl: "https://news.com/s" },
+        { sourceId: "b", guid: "copy", canonicalUrl: "https://news.com/s" },
+        { sourceId: "b", guid: "no-link" },
+      ]).size,
+    ).toBe(0);
+  });
+});
+
+describe("findUrlMatch", () => {
+  const story = { id: "1", sourceIds: ["a"] };
+
+  it("matches the single story of another source", () => {
+    expect(findUrlMatch([story], "b")).toBe(story);
+  });
+
+  it("doesn't match a story of the same source", () => {
+    expect(findUrlMatch([story], "a")).toBeNull();
+  });
+
+  it("doesn't match when several stories use the URL", () => {
+    expect(
+      findUrlMatch([story, { id: "2", sourceIds: ["c"] }], "b"),
+    ).toBeNull();
+  });
+});
+
+describe("isSameMedia", () => {
+  const episode1 = [{ url: "https://cdn.pod.com/1.mp3" }];
+  const episode2 = [{ url: "https://cdn.pod.com/2.mp3" }];
+
+  it("tells items with different media files apart", () => {
+    expect(isSameMedia(episode1, episode2)).toBe(false);
+  });
+
+  it("matches items sharing a media file", () => {
+    expect(
+      isSameMedia(episode1, [
+        ...episode2,
+        { url: " https://cdn.pod.com/1.mp3" },
+      ]),
+    ).toBe(true);
+  });
+
+  it("never blocks items without media", () => {
+    expect(isSameMedia(undefined, episode1)).toBe(true);
+    expect(isSameMedia(episode1, [])).toBe(true);
+  });
+});
+
+describe("findClosestBySimhash", () => {
+  const summary =
+    "Your daily roundup of the top stories in technology, business and science, curated by our editors every morning";
+
+  function digest(day: number, sourceIds: string[]) {
+    const { simhash } = getArticleFingerprint({
+      title: `Daily digest for October ${day}`,
+      link: `https://example.com/digest/${day}`,
+      summary,
+    });
+    return {
+      simhash: simhash as string,
+      pubDate: new Date(Date.UTC(2025, 9, day)),
+      sourceIds,
+    };
+  }
+
+  it("doesn't match a near-duplicate the same source published", () => {
+    const stored = digest(18, ["daily"]);
+    const incoming = digest(19, ["daily"]);
+
+    expect(
+      findClosestBySimhash(
+        [stored],
+        incoming.simhash,
+        incoming.pubDate,
+        "daily",
+      ),
+    ).toBeNull();
+  });
+
+  it("matches a near-duplicate another source published", () => {
+    const stored = digest(18, ["wire"]);
+    const incoming = digest(19, ["daily"]);
+
+    expect(
+      findClosestBySimhash(
+        [stored],
+        incoming.simhash,
+        incoming.pubDate,
+        "daily",
+      ),
+    ).toBe(stored);
+  });
+});
@@ -0,0 +1,364 @@
+import type { ArticleFingerprint } from "./types";
+
+// ============================================
+// NEAR-DUPLICATE DETECTION
+// ============================================
+
+/**
+ * Query parameters that only track where a click came from
+ */
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "igshid",
+  "ref",
+  "ref_src",
+  "cmpid",
+  "ncid",
+  "ocid",
+  "outputtype",
+  "amp",
+]);
+
+/**
+ * Number of 16-bit bands a SimHash is split into for candidate lookup
+ *
+ * Two hashes within SIMHASH_MAX_DISTANCE bits of each other always share
+ * at least one identical band (pigeonhole), so only articles sharing a
+ * band need to be compared.
+ */
+const SIMHASH_BANDS = 4;
+
+/**
+ * Maximum Hamming distance between two SimHashes of the same story
+ */
+export const SIMHASH_MAX_DISTANCE = 3;
+
+/**
+ * How far apart two copies of the same story may be published
+ */
+export const NEAR_DUPLICATE_WINDOW = 3 * 24 * 60 * 60 * 1000; // 3 days
+
+/**
+ * Texts with fewer words than this are too short to fingerprint reliably
+ */
+const MIN_FINGERPRINT_WORDS = 8;
+
+/**
+ * Common words that carry no information about the story
+ */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "to",
+  "was",
+  "were",
+  "will",
+  "with",
+]);
+
+/**
+ * Normalizes an article URL so syndicated and tracked copies compare equal
+ *
+ * - Drops utm_* and other click-tracking parameters, and the #fragment
+ * - Maps AMP variants (amp. subdomain, /amp/ path segments, .amp.html,
+ *   ?amp=1) to the regular page
+ * - Lowercases the host, drops "www." and trailing slashes
+ *
+ * @param url - Article link from the feed
+ * @returns Canonical URL, or undefined if the link isn't a valid http(s) URL
+ */
+export function canonicalizeUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return undefined;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|amp)\./, "");
+
+  const path =
+    parsed.pathname
+      .replace(/\/amp(?=\/|$)/gi, "")
+      .replace(/\.amp(\.html?)$/i, "$1")
+      .replace(/\/+$/, "") || "/";
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => {
+      const name = key.toLowerCase();
+      return !name.startsWith("utm_") && !TRACKING_PARAMS.has(name);
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  return `https://${host}${path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Returns true if a canonical URL is a site's home page
+ *
+ * Feeds without item pages (many podcasts) link every item to the home
+ * page, so it says nothing about which story an item is.
+ */
+export function isSiteRootUrl(canonicalUrl: string): boolean {
+  const { pathname, search } = new URL(canonicalUrl);
+  return pathname === "/" && !search;
+}
+
+/**
+ * Finds canonical URLs that several items of one source link to
+ *
+ * Such a URL is a shared page (a show page, a category page), not the
+ * item's own, so it can't tell the items apart.
+ *
+ * @returns Canonical URLs used by more than one GUID of the same source
+ */
+export function findSharedUrls(
+  items: { sourceId: string; guid: string; canonicalUrl?: string }[],
+): Set<string> {
+  const guidsByUrl = new Map<string, Set<string>>();
+  const shared = new Set<string>();
+
+  for (const { sourceId, guid, canonicalUrl } of items) {
+    if (!canonicalUrl) {
+      continue;
+    }
+    const key = `${sourceId} ${canonicalUrl}`;
+    const guids = guidsByUrl.get(key) ?? new Set<string>();
+    guids.add(guid);
+    guidsByUrl.set(key, guids);
+
+    if (guids.size > 1) {
+      shared.add(canonicalUrl);
+    }
+  }
+
+  return shared;
+}
+
+/**
+ * Picks the stored story an article's canonical URL points to
+ *
+ * A URL only identifies a story while a single story uses it, and only
+ * for another source: a source linking a second item to the same page is
+ * reusing the page, not republishing the story.
+ *
+ * @param stories - Stored stories with the article's canonical URL
+ * @param sourceId - Source the article was fetched from
+ * @returns The matching story, or null
+ */
+export function findUrlMatch<T extends { sourceIds: string[] }>(
+  stories: T[],
+  sourceId: string,
+): T | null {
+  if (stories.length !== 1 || stories[0].sourceIds.includes(sourceId)) {
+    return null;
+  }
+  return stories[0];
+}
+
+/**
+ * Returns true unless two items carry different media files
+ *
+ * Podcast episodes often share a show-page link and a boilerplate
+ * description; the audio file is what tells them apart. Items without
+ * media never conflict.
+ */
+export function isSameMedia(
+  a: { url: string }[] | undefined,
+  b: { url: string }[] | undefined,
+): boolean {
+  if (!a?.length || !b?.length) {
+    return true;
+  }
+  const urls = new Set(a.map((enclosure) => enclosure.url.trim()));
+  return b.some((enclosure) => urls.has(enclosure.url.trim()));
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, with a seed to derive independent hashes
+ */
+function fnv1a32(value: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Splits text into lowercase words, dropping punctuation and stop words
+ */
+function getFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+
+  return words.length < MIN_FINGERPRINT_WORDS ? [] : words;
+}
+
+/**
+ * Computes a 64-bit SimHash of a text
+ *
+ * Similar texts produce hashes that differ in only a few bits, so
+ * lightly edited headlines or trimmed teasers still match. The 64 bits
+ * are built from two independent 32-bit hashes (no BigInt needed).
+ *
+ * @returns 16-character hex hash, or undefined if the text is too short
+ */
+export function simhash(text: string): string | undefined {
+  const features = getFeatures(text);
+  if (features.length === 0) {
+    return undefined;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const feature of features) {
+    const halves = [fnv1a32(feature, 0), fnv1a32(feature, 0x9e3779b9)];
+    for (let bit = 0; bit < 64; bit++) {
+      const half = halves[bit >> 5];
+      weights[bit] += (half >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const toHex = (offset: number) => {
+    let value = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      if (weights[offset + bit] > 0) {
+        value |= 1 << bit;
+      }
+    }
+    return (value >>> 0).toString(16).padStart(8, "0");
+  };
+
+  return toHex(32) + toHex(0);
+}
+
+/**
+ * Splits a hex SimHash into indexed bands, e.g. ["0:ab12", "1:34cd", ...]
+ */
+export function getSimhashBands(hash: string): string[] {
+  const bandLength = 16 / SIMHASH_BANDS;
+  return Array.from(
+    { length: SIMHASH_BANDS },
+    (_, band) =>
+      `${band}:${hash.slice(band * bandLength, (band + 1) * bandLength)}`,
+  );
+}
+
+/**
+ * Number of differing bits between two hex SimHashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let count = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let diff =
+      (Number.parseInt(a.slice(i, i + 8), 16) ^
+        Number.parseInt(b.slice(i, i + 8), 16)) >>>
+      0;
+    while (diff) {
+      count += diff & 1;
+      diff >>>= 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Picks the candidate whose SimHash is closest to an article's
+ *
+ * Only candidates within SIMHASH_MAX_DISTANCE bits and published within
+ * NEAR_DUPLICATE_WINDOW of the article qualify. Stories the article's own
+ * source published never do: a templated item ("Daily digest for
+ * October 19") is a new story, not a copy of yesterday's.
+ *
+ * @param sourceId - Source the article was fetched from
+ * @returns The closest candidate, or null if none qualifies
+ */
+export function findClosestBySimhash<
+  T extends { simhash?: string | null; pubDate: Date; sourceIds: string[] },
+>(candidates: T[], hash: string, pubDate: Date, sourceId: string): T | null {
+  let closest: T | null = null;
+  let closestDistance = SIMHASH_MAX_DISTANCE + 1;
+
+  for (const candidate of candidates) {
+    if (
+      !candidate.simhash ||
+      candidate.sourceIds.includes(sourceId) ||
+      Math.abs(candidate.pubDate.getTime() - pubDate.getTime()) >
+        NEAR_DUPLICATE_WINDOW
+    ) {
+      continue;
+    }
+    const distance = hammingDistance(candidate.simhash, hash);
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Computes an article's canonical URL and content SimHash
+ *
+ * Links to a site's home page get no canonical URL, so items that all
+ * point there aren't merged into one story.
+ *
+ * @param article - Title, link and best available text of the article
+ */
+export function getArticleFingerprint(article: {
+  title: string;
+  link: string;
+  summary?: string;
+  contentMarkdown?: string;
+}): ArticleFingerprint {
+  const text = [
+    article.title,
+    article.summary || article.contentMarkdown?.slice(0, 1000),
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const hash = simhash(text);
+  const canonicalUrl = canonicalizeUrl(article.link);
+
+  return {
+    canonicalUrl:
+      canonicalUrl && !isSiteRootUrl(canonicalUrl) ? canonicalUrl : undefined,
+    simhash: hash,
+    simhashBands: hash ? getSimhashBands(hash) : [],
+  };
+}
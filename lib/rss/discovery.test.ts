@@ -0,0 +1,205 @@
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  COMMON_FEED_PATHS,
+  discoverFeeds,
+  extractFeedLinks,
+} from "./discovery";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`./__fixtures__/discovery/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+/**
+ * Replaces fetch with a lookup of canned responses
+ * Unknown URLs answer 404.
+ */
+function stubFetch(
+  responses: Record<string, { body: string; contentType: string }>,
+) {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    const response = responses[url];
+
+    return response
+      ? new Response(response.body, {
+          headers: { "content-type": response.contentType },
+        })
+      : new Response("Not found", { status: 404 });
+  });
+
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("extractFeedLinks", () => {
+  it("finds an RSS link with its title", () => {
+    expect(
+      extractFeedLinks(readFixture("rss-link.html"), "https://example.com/"),
+    ).toEqual([
+      {
+        url: "https://example.com/feed.xml",
+        title: "Example Blog & Notes",
+        format: "RSS 2.0",
+      },
+    ]);
+  });
+
+  it("finds an Atom link regardless of tag and attribute case", () => {
+    expect(
+      extractFeedLinks(
+        readFixture("atom-link.html"),
+        "https://atom.example.org/",
+      ),
+    ).toEqual([
+      {
+        url: "https://atom.example.org/atom.xml",
+        title: undefined,
+        format: "Atom 1.0",
+      },
+    ]);
+  });
+
+  it("finds a JSON Feed link", () => {
+    expect(
+      extractFeedLinks(
+        readFixture("json-feed-link.html"),
+        "https://json.example.net/",
+      ),
+    ).toEqual([
+      {
+        url: "https://json.example.net/feed.json",
+        title: "JSON Feed",
+        format: "JSON Feed 1.1",
+      },
+    ]);
+  });
+
+  it("resolves relative hrefs against the page URL and drops duplicates", () => {
+    const candidates = extractFeedLinks(
+      readFixture("multiple-links.html"),
+      "https://news.example.com/blog/post.html",
+    );
+
+    expect(candidates.map(({ url, format }) => ({ url, format }))).toEqual([
+      { url: "https://news.example.com/feed/", format: "RSS 2.0" },
+      {
+        url: "https://news.example.com/blog/comments/atom.xml",
+        format: "Atom 1.0",
+      },
+      { url: "https://news.example.com/feed.json", format: "JSON Feed 1.1" },
+    ]);
+  });
+
+  it("resolves hrefs against <base href>", () => {
+    expect(
+      extractFeedLinks(readFixture("base-href.html"), "https://example.com/"),
+    ).toEqual([
+      {
+        url: "https://cdn.example.com/site/rss.xml",
+        title: undefined,
+        format: "RSS 2.0",
+      },
+    ]);
+  });
+
+  it("returns nothing for a page without feed links", () => {
+    expect(
+      extractFeedLinks(readFixture("no-feed.html"), "https://example.com/"),
+    ).toEqual([]);
+  });
+});
+
+describe("discoverFeeds", () => {
+  it("returns the URL itself when it is a feed", async () => {
+    stubFetch({
+      "https://example.com/feed.xml": {
+        body: readFixture("feed.xml"),
+        contentType: "application/rss+xml",
+      },
+    });
+
+    await expect(
+      discoverFeeds("https://example.com/feed.xml"),
+    ).resolves.toEqual({
+      isFeed: true,
+      candidates: [{ url: "https://example.com/feed.xml", format: "RSS 2.0" }],
+    });
+  });
+
+  it("returns the feeds a page advertises without probing", async () => {
+    const fetchMock = stubFetch({
+      "https://example.com/": {
+        body: readFixture("rss-link.html"),
+        contentType: "text/html; charset=utf-8",
+      },
+    });
+
+    const result = await discoverFeeds("https://example.com/");
+
+    expect(result.isFeed).toBe(false);
+    expect(result.candidates.map((candidate) => candidate.url)).toEqual([
+      "https://example.com/feed.xml",
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("probes common paths on the origin when the page advertises none", async () => {
+    const fetchMock = stubFetch({
+      "https://example.com/about/": {
+        body: readFixture("no-feed.html"),
+        contentType: "text/html",
+      },
+      "https://example.com/rss.xml": {
+        body: readFixture("feed.xml"),
+        contentType: "application/xml",
+      },
+      // Served, but not a feed
+      "https://example.com/feed": {
+        body: readFixture("no-feed.html"),
+        contentType: "text/html",
+      },
+    });
+
+    await expect(discoverFeeds("https://example.com/about/")).resolves.toEqual({
+      isFeed: false,
+      candidates: [{ url: "https://example.com/rss.xml", format: "RSS 2.0" }],
+    });
+
+    const probed = fetchMock.mock.calls.slice(1).map(([url]) => String(url));
+    expect(probed).toEqual(
+      COMMON_FEED_PATHS.map((path) => `https://example.com${path}`),
+    );
+  });
+
+  it("still probes common paths when the page can't be fetched", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stubFetch({
+      "https://example.com/feed.json": {
+        body: JSON.stringify({
+          version: "https://jsonfeed.org/version/1.1",
+          title: "JSON",
+          items: [],
+        }),
+        contentType: "application/feed+json",
+      },
+    });
+
+    await expect(discoverFeeds("https://example.com/missing")).resolves.toEqual(
+      {
+        isFeed: false,
+        candidates: [
+          { url: "https://example.com/feed.json", format: "JSON Feed 1.1" },
+        ],
+      },
+    );
+  });
+});
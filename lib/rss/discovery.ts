@@ -0,0 +1,177 @@
+import { getFeedAdapter } from "./adapters";
+import { atomAdapter } from "./adapters/atom";
+import { jsonFeedAdapter } from "./adapters/json-feed";
+import { rssAdapter } from "./adapters/rss";
+import { decodeEntities } from "./adapters/utils";
+import { downloadFeed } from "./parser";
+import type { FeedCandidate, FeedDiscoveryResult } from "./types";
+
+// ============================================
+// FEED AUTODISCOVERY
+// ============================================
+
+/**
+ * MIME types advertised by <link rel="alternate"> for feeds
+ */
+const FEED_LINK_TYPES: Record<string, string> = {
+  "application/rss+xml": rssAdapter.name,
+  "application/atom+xml": atomAdapter.name,
+  "application/feed+json": jsonFeedAdapter.name,
+};
+
+/**
+ * Well-known feed locations probed when a page advertises no feeds
+ * Paths are resolved against the site origin
+ */
+export const COMMON_FEED_PATHS = [
+  "/feed",
+  "/rss",
+  "/rss.xml",
+  "/feed.xml",
+  "/atom.xml",
+  "/index.xml",
+  "/feed.json",
+];
+
+/**
+ * Parses the attributes of a single HTML tag into a lowercase-keyed map
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? "",
+    );
+  }
+
+  return attributes;
+}
+
+/**
+ * Resolves a possibly relative URL, returning undefined if it is invalid
+ */
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts advertised feeds from an HTML page
+ *
+ * Looks for <link rel="alternate" type="application/rss+xml|atom+xml|feed+json">
+ * and resolves their href against <base href> or the page URL.
+ *
+ * @param html - HTML document
+ * @param pageUrl - URL the document was fetched from
+ * @returns Feed candidates in document order, without duplicates
+ */
+export function extractFeedLinks(
+  html: string,
+  pageUrl: string,
+): FeedCandidate[] {
+  const baseTag = /<base\b[^>]*>/i.exec(html)?.[0];
+  const baseHref = baseTag ? parseAttributes(baseTag).href : undefined;
+  const baseUrl = (baseHref && resolveUrl(baseHref, pageUrl)) || pageUrl;
+
+  const candidates: FeedCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rels = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+    const format =
+      FEED_LINK_TYPES[(attributes.type ?? "").toLowerCase().trim()];
+
+    if (!rels.includes("alternate") || !format || !attributes.href) {
+      continue;
+    }
+
+    const url = resolveUrl(attributes.href, baseUrl);
+    if (!url || seen.has(url)) {
+      continue;
+    }
+
+    seen.add(url);
+    candidates.push({
+      url,
+      title: attributes.title?.trim() || undefined,
+      format,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Downloads a URL and checks whether any adapter recognizes it as a feed
+ *
+ * @returns Candidate with the detected format, or null if it is not a feed
+ */
+async function detectFeed(url: string): Promise<FeedCandidate | null> {
+  try {
+    const download = await downloadFeed(url);
+    const adapter =
+      download && getFeedAdapter(download.body, download.contentType);
+    return adapter ? { url, format: adapter.name } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Probes the common feed paths on a site's origin
+ *
+ * @returns Candidates for every path that serves a recognizable feed
+ */
+async function probeCommonFeedPaths(pageUrl: string): Promise<FeedCandidate[]> {
+  const origin = new URL(pageUrl).origin;
+
+  const results = await Promise.all(
+    COMMON_FEED_PATHS.map((path) => detectFeed(`${origin}${path}`)),
+  );
+
+  return results.filter(
+    (candidate): candidate is FeedCandidate => candidate !== null,
+  );
+}
+
+/**
+ * Discovers feeds for a URL that may be a feed or a website
+ *
+ * 1. If the URL itself is a feed, it is returned as the only candidate
+ * 2. Otherwise feeds advertised in the page's <link> tags are collected
+ * 3. If the page advertises none, common paths like /feed are probed
+ *
+ * @param url - Feed or website URL
+ * @returns Whether the URL is a feed, plus candidate feed URLs
+ */
+export async function discoverFeeds(url: string): Promise<FeedDiscoveryResult> {
+  let download: Awaited<ReturnType<typeof downloadFeed>> = null;
+  try {
+    download = await downloadFeed(url);
+  } catch (error) {
+    console.error("Failed to fetch page for feed discovery:", error);
+  }
+
+  if (download) {
+    const adapter = getFeedAdapter(download.body, download.contentType);
+    if (adapter) {
+      return { isFeed: true, candidates: [{ url, format: adapter.name }] };
+    }
+
+    const advertised = extractFeedLinks(download.body, url);
+    if (advertised.length > 0) {
+      return { isFeed: false, candidates: advertised };
+    }
+  }
+
+  return { isFeed: false, candidates: await probeCommonFeedPaths(url) };
+}
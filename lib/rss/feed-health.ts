@@ -0,0 +1,52 @@
+// ============================================
+// FEED HEALTH & BACKOFF
+// ============================================
+
+/**
+ * Delay before the first retry after a failed fetch (15 minutes)
+ * Each further consecutive failure doubles the delay.
+ */
+export const BACKOFF_BASE = 15 * 60 * 1000;
+
+/**
+ * Longest delay between retries (24 hours)
+ * Even a dead feed is still retried once a day in case it comes back.
+ */
+export const BACKOFF_MAX = 24 * 60 * 60 * 1000;
+
+/**
+ * Consecutive failures after which a feed is shown as broken
+ */
+export const BROKEN_FAILURE_THRESHOLD = 5;
+
+export type FeedHealthStatus = "healthy" | "degraded" | "broken";
+
+/**
+ * Calculates how long to wait before retrying a failing feed
+ *
+ * 1 failure → 15 min, 2 → 30 min, 3 → 1 h, ... capped at 24 h
+ *
+ * @param consecutiveFailures - Failed fetches in a row (>= 1)
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(consecutiveFailures: number): number {
+  const exponent = Math.max(consecutiveFailures - 1, 0);
+  return Math.min(BACKOFF_BASE * 2 ** exponent, BACKOFF_MAX);
+}
+
+/**
+ * Classifies a feed by its consecutive failure count
+ *
+ * - healthy: last fetch succeeded
+ * - degraded: failing, but only recently
+ * - broken: failing repeatedly - the user should fix or remove it
+ */
+export function getFeedHealth(consecutiveFailures: number): FeedHealthStatus {
+  if (consecutiveFailures <= 0) {
+    return "healthy";
+  }
+  if (consecutiveFailures < BROKEN_FAILURE_THRESHOLD) {
+    return "degraded";
+  }
+  return "broken";
+}
@@ -1,22 +1,14 @@
-import { getArticlesByFeedsAndDateRange } from "@/actions/rss-article";
-import { fetchAndStoreFeed } from "@/actions/rss-fetch";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import type { PrepareFeedsParams } from "./types";
+import { getArticlesBySourcesAndDateRange } from "./articles";
+import { refreshSources } from "./refresh-coordinator";
+import { getSubscriptionSources } from "./subscriptions";
+import type { FeedSourceContext, PrepareFeedsParams } from "./types";
 
 // ============================================
 // FEED REFRESH UTILITIES
 // ============================================
 
-/**
- * Cache window for RSS feeds (3 hours in milliseconds)
- *
- * Why 3 hours? This balances:
- * - Fresh content for users
- * - Reduced load on RSS feed servers
- * - Better performance (fewer network requests)
- */
-export const CACHE_WINDOW = 3 * 60 * 60 * 1000; // 3 hours
-
 /**
  * Maximum number of articles to fetch for newsletter generation
  *
@@ -26,111 +18,204 @@ export const CACHE_WINDOW = 3 * 60 * 60 * 1000; // 3 hours
 export const ARTICLE_LIMIT = 100;
 
 /**
- * Determines which feeds need refreshing (older than 3 hours)
+ * Maximum number of feed sources refreshed in one background worker run
+ *
+ * Keeps a single run well inside the route's maxDuration. Sources that
+ * don't fit are picked up by the next run (oldest first).
+ */
+export const REFRESH_MAX_FEEDS_PER_RUN = 200;
+
+/**
+ * Matches sources that are due for a refresh and not backing off
+ *
+ * nextRefreshAt is set one refresh interval after each fetch (see
+ * getNextRefreshAt); sources never fetched, or fetched before the field
+ * existed, don't have it and are due right away. Failing sources wait
+ * until nextRetryAt.
+ */
+function dueForRefresh(now: Date): Prisma.FeedSourceWhereInput {
+  return {
+    AND: [
+      {
+        OR: [
+          { nextRefreshAt: null },
+          { nextRefreshAt: { isSet: false } },
+          { nextRefreshAt: { lte: now } },
+        ],
+      },
+      {
+        OR: [
+          { nextRetryAt: null },
+          { nextRetryAt: { isSet: false } },
+          { nextRetryAt: { lte: now } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Determines which feed sources need refreshing (older than their refresh interval)
  *
- * This function uses a global cache strategy: if ANY user has recently
- * fetched a feed URL, we use that cached data for all users. This:
+ * Sources are shared by every subscriber of a URL, so this is a global
+ * cache: if ANY user's refresh fetched a source recently, everyone reads
+ * that data. This:
  * - Reduces load on external RSS servers
  * - Improves performance across the platform
  * - Keeps data reasonably fresh for everyone
  *
- * @param feedIds - Array of feed IDs to check
- * @returns Array of feed IDs that need refreshing
+ * Sources that are failing and still inside their backoff delay are
+ * skipped too, so a broken feed doesn't slow down every generation.
+ *
+ * @param sourceIds - Array of feed source IDs to check
+ * @returns Array of feed source IDs that need refreshing
  */
-export async function getFeedsToRefresh(feedIds: string[]): Promise<string[]> {
-  const now = new Date();
-  const cacheThreshold = new Date(now.getTime() - CACHE_WINDOW);
-
-  // Get all requested feeds with their URLs
-  const feeds = await prisma.rssFeed.findMany({
+export async function getSourcesToRefresh(
+  sourceIds: string[],
+): Promise<string[]> {
+  const sources = await prisma.feedSource.findMany({
     where: {
-      id: { in: feedIds },
-    },
-    select: {
-      id: true,
-      url: true,
+      id: { in: sourceIds },
+      ...dueForRefresh(new Date()),
     },
+    select: { id: true },
   });
 
-  // Get the most recent fetch time for each unique URL
-  // This is done in a single query using aggregation
-  const urlsToCheck = [...new Set(feeds.map((f) => f.url))];
+  return sources.map((source) => source.id);
+}
 
-  const recentFetches = await prisma.rssFeed.groupBy({
-    by: ["url"],
+/**
+ * Finds stale feed sources for the background worker
+ *
+ * Returns sources with at least one subscriber whose last fetch is older
+ * than their refresh interval, oldest first. Sources still inside their
+ * failure backoff delay are left for a later run.
+ *
+ * @param limit - Maximum number of source IDs to return
+ * @returns Feed source IDs to refresh
+ */
+export async function getStaleSourceIds(limit: number): Promise<string[]> {
+  const sources = await prisma.feedSource.findMany({
     where: {
-      url: { in: urlsToCheck },
-      lastFetched: {
-        gte: cacheThreshold,
-      },
-    },
-    _max: {
-      lastFetched: true,
+      subscriptions: { some: {} },
+      ...dueForRefresh(new Date()),
     },
+    select: { id: true },
+    orderBy: { lastFetched: "asc" },
+    take: limit,
   });
 
-  // Build a set of URLs that were recently fetched (don't need refresh)
-  const recentlyFetchedUrls = new Set(
-    recentFetches
-      .filter((fetch) => fetch._max.lastFetched !== null)
-      .map((fetch) => fetch.url),
+  return sources.map((source) => source.id);
+}
+
+/**
+ * Refreshes all stale feed sources through the refresh coordinator
+ *
+ * Called by the scheduled refresh route so newsletter generation can
+ * mostly read from the database. The coordinator caps concurrent
+ * requests to feed servers, globally and per host, and skips sources
+ * another instance is already refreshing.
+ *
+ * @param options - Maximum sources per run
+ * @returns Counts of refreshed and failed sources
+ */
+export async function refreshStaleFeeds(options?: { maxFeeds?: number }) {
+  const maxFeeds = options?.maxFeeds ?? REFRESH_MAX_FEEDS_PER_RUN;
+
+  const sourceIds = await getStaleSourceIds(maxFeeds);
+  const { fetched, joined, failed } = await refreshSources(sourceIds);
+  const refreshed = fetched + joined;
+
+  console.log(
+    `Background feed refresh complete: ${refreshed} refreshed, ${failed} failed (${sourceIds.length} stale)`,
   );
 
-  // Feeds need refresh if their URL is NOT in the recently fetched set
-  const feedsToRefresh = feeds
-    .filter((feed) => !recentlyFetchedUrls.has(feed.url))
-    .map((feed) => feed.id);
+  return {
+    stale: sourceIds.length,
+    refreshed,
+    failed,
+  };
+}
 
-  return feedsToRefresh;
+/**
+ * Labels an article with the user's name and note for its feed
+ *
+ * A story can come from several sources; the one it was first published
+ * by is used when the user follows it, otherwise the first selected one.
+ * The user's custom feed name replaces the source title in the prompt.
+ */
+function withSubscriptionContext<
+  T extends {
+    sourceId: string;
+    sourceIds: string[];
+    source: { title: string | null };
+  },
+>(article: T, contextBySource: Record<string, FeedSourceContext>) {
+  const sourceId = contextBySource[article.sourceId]
+    ? article.sourceId
+    : article.sourceIds.find((id) => contextBySource[id]);
+  const context = sourceId ? contextBySource[sourceId] : undefined;
+
+  return {
+    ...article,
+    source: {
+      ...article.source,
+      title: context?.title ?? article.source.title,
+    },
+    sourceNote: context?.note ?? null,
+  };
 }
 
 /**
  * Prepares feeds and fetches articles for newsletter generation
  *
  * This is the main function called when generating a newsletter. It:
- * 1. Checks which feeds are stale (>3 hours old)
- * 2. Refreshes stale feeds by fetching new articles
- * 3. Retrieves articles from the database for the date range
+ * 1. Resolves the selected subscriptions to their feed sources
+ * 2. Checks which sources are stale (older than their refresh interval)
+ * 3. Refreshes stale sources by fetching new articles
+ * 4. Retrieves articles from the database for the date range, applying
+ *    each feed's filter rules and labeling them with the feed's name and note
+ *
+ * Feeds are normally kept fresh by the scheduled refresh route
+ * (refreshStaleFeeds), so step 3 is only a fallback for feeds the
+ * worker hasn't reached yet.
  *
- * @param params - Feed IDs and date range for the newsletter
+ * @param params - User, subscription IDs and date range for the newsletter
  * @returns Array of articles ready for newsletter generation
  * @throws Error if no articles found in the date range
  */
 export async function prepareFeedsAndArticles(params: PrepareFeedsParams) {
-  // Check which feeds need refreshing (skips fresh feeds)
-  const feedsToRefresh = await getFeedsToRefresh(params.feedIds);
+  // Several subscriptions can point at the same source
+  const { sourceIds, filterRulesBySource, contextBySource } =
+    await getSubscriptionSources(params.userId, params.feedIds);
 
-  if (feedsToRefresh.length > 0) {
+  // Check which sources need refreshing (skips fresh sources)
+  const sourcesToRefresh = await getSourcesToRefresh(sourceIds);
+
+  if (sourcesToRefresh.length > 0) {
     console.log(
-      `Refreshing ${feedsToRefresh.length} stale feeds (out of ${params.feedIds.length} total)...`,
+      `Refreshing ${sourcesToRefresh.length} stale feeds (out of ${sourceIds.length} total)...`,
     );
 
-    // Refresh all stale feeds in parallel for better performance
-    // Using Promise.allSettled so one failure doesn't stop others
-    const refreshResults = await Promise.allSettled(
-      feedsToRefresh.map((feedId) => fetchAndStoreFeed(feedId)),
-    );
+    // The coordinator caps concurrent fetches and shares a fetch with
+    // anyone refreshing the same source at the same time
+    const { fetched, joined, failed } = await refreshSources(sourcesToRefresh);
 
     // Log results for monitoring
-    const successful = refreshResults.filter(
-      (r) => r.status === "fulfilled",
-    ).length;
-    const failed = refreshResults.filter((r) => r.status === "rejected").length;
     console.log(
-      `Feed refresh complete: ${successful} successful, ${failed} failed`,
+      `Feed refresh complete: ${fetched} fetched, ${joined} joined, ${failed} failed`,
     );
   } else {
-    console.log(
-      `All ${params.feedIds.length} feeds are fresh (< 3 hours old), skipping refresh`,
-    );
+    console.log(`All ${sourceIds.length} feeds are fresh, skipping refresh`);
   }
 
   // Fetch articles from the database within the specified date range
-  const articles = await getArticlesByFeedsAndDateRange(
-    params.feedIds,
+  const articles = await getArticlesBySourcesAndDateRange(
+    sourceIds,
     params.startDate,
     params.endDate,
     ARTICLE_LIMIT,
+    filterRulesBySource,
   );
 
   // Ensure we have articles to work with
@@ -138,5 +223,7 @@ export async function prepareFeedsAndArticles(params: PrepareFeedsParams) {
     throw new Error("No articles found for the selected feeds and date range");
   }
 
-  return articles;
+  return articles.map((article) =>
+    withSubscriptionContext(article, contextBySource),
+  );
 }
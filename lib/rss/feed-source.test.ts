@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { bulkCreateRssArticles } from "./articles";
+import { getBackoffDelay } from "./feed-health";
+import { fetchAndStoreSource, recordSourceFailure } from "./feed-source";
+import { fetchAndParseFeed } from "./parser";
+import { DEFAULT_RETENTION_DAYS } from "./retention";
+import type { ArticleData } from "./types";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    feedSource: { findUnique: vi.fn(), update: vi.fn() },
+    subscription: { count: vi.fn() },
+  },
+}));
+
+vi.mock("./parser", () => ({ fetchAndParseFeed: vi.fn() }));
+
+vi.mock("./articles", () => ({
+  bulkCreateRssArticles: vi.fn(),
+  extractFullTextForSource: vi.fn(),
+}));
+
+const SOURCE_ID = "65a1f0c2e4b0a1b2c3d4e5f6";
+const DAY = 24 * 60 * 60 * 1000;
+
+const findSource = vi.mocked(prisma.feedSource.findUnique);
+const updateSource = vi.mocked(prisma.feedSource.update);
+const fetchFeed = vi.mocked(fetchAndParseFeed);
+const storeArticles = vi.mocked(bulkCreateRssArticles);
+
+function item(guid: string, daysAgo: number): ArticleData {
+  return {
+    guid,
+    title: guid,
+    link: `https://example.com/${guid}`,
+    pubDate: new Date(Date.now() - daysAgo * DAY),
+    categories: [],
+  };
+}
+
+/**
+ * A full (non-304) response listing the given items
+ */
+function givenFeedItems(articles: ArticleData[]) {
+  fetchFeed.mockResolvedValue({
+    notModified: false,
+    metadata: { title: "Example" },
+    articles,
+    itemCount: articles.length,
+    cacheHeaders: { etag: '"v2"' },
+  });
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  findSource.mockResolvedValue({
+    id: SOURCE_ID,
+    url: "https://example.com/feed.xml",
+    etag: '"v1"',
+    lastModified: null,
+  } as never);
+  updateSource.mockResolvedValue({ refreshInterval: null } as never);
+  vi.mocked(prisma.subscription.count).mockResolvedValue(0);
+  storeArticles.mockResolvedValue({
+    created: 1,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+  });
+});
+
+describe("fetchAndStoreSource", () => {
+  it("doesn't bring back items pruned while the feed still lists them", async () => {
+    // The evergreen item was pruned, but the feed keeps listing it
+    givenFeedItems([
+      item("fresh", 1),
+      item("evergreen", DEFAULT_RETENTION_DAYS + 10),
+    ]);
+
+    await fetchAndStoreSource(SOURCE_ID);
+
+    const stored = storeArticles.mock.calls[0][0];
+    expect(stored.map((article) => article.guid)).toEqual(["fresh"]);
+  });
+
+  it("schedules the next refresh one refresh interval after the fetch", async () => {
+    givenFeedItems([item("fresh", 1)]);
+    updateSource.mockResolvedValue({ refreshInterval: 60 } as never);
+
+    await fetchAndStoreSource(SOURCE_ID);
+
+    const [{ data }] =
+      updateSource.mock.calls[updateSource.mock.calls.length - 1];
+    expect(data).toMatchObject({ etag: '"v2"' });
+    expect(
+      (data.nextRefreshAt as Date).getTime() -
+        (data.lastFetched as Date).getTime(),
+    ).toBe(60 * 60 * 1000);
+  });
+
+  it("keeps the old validators when the articles can't be stored", async () => {
+    givenFeedItems([item("fresh", 1)]);
+    storeArticles.mockResolvedValue({
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      errors: 1,
+    });
+    updateSource.mockResolvedValue({ consecutiveFailures: 1 } as never);
+
+    await expect(fetchAndStoreSource(SOURCE_ID)).rejects.toThrow();
+
+    // Otherwise the next fetch would get a 304 and never store the items
+    for (const [{ data }] of updateSource.mock.calls) {
+      expect(data).not.toHaveProperty("etag");
+      expect(data).not.toHaveProperty("lastSuccessAt");
+    }
+    expect(updateSource).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ lastError: expect.any(String) }),
+      }),
+    );
+  });
+});
+
+describe("recordSourceFailure", () => {
+  it("backs off from the failure count the increment returns", async () => {
+    // Another refresh failed in the meantime
+    updateSource.mockResolvedValue({ consecutiveFailures: 3 } as never);
+    const before = Date.now();
+
+    const { consecutiveFailures, nextRetryAt } = await recordSourceFailure(
+      SOURCE_ID,
+      "HTTP 503",
+    );
+
+    expect(updateSource).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { consecutiveFailures: { increment: 1 }, lastError: "HTTP 503" },
+      }),
+    );
+    expect(findSource).not.toHaveBeenCalled();
+    expect(consecutiveFailures).toBe(3);
+    expect(nextRetryAt.getTime()).toBeGreaterThanOrEqual(
+      before + getBackoffDelay(3),
+    );
+    expect(updateSource).toHaveBeenLastCalledWith({
+      where: { id: SOURCE_ID },
+      data: { nextRetryAt },
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { wrapDatabaseOperation } from "@/lib/database/error-handler";
+import { prisma } from "@/lib/prisma";
+import { canonicalizeFeedUrl } from "@/lib/utils/url";
+import { bulkCreateRssArticles, extractFullTextForSource } from "./articles";
+import { getBackoffDelay } from "./feed-health";
+import {
+  type ArticleData,
+  type FeedFetchResult,
+  fetchAndParseFeed,
+} from "./parser";
+import { calculateRefreshInterval, getNextRefreshAt } from "./refresh-interval";
+import { getRetentionCutoff } from "./retention";
+import type { FeedCacheHeaders, FeedMetadata } from "./types";
+
+// ============================================
+// FEED SOURCES
+// ============================================
+//
+// Internal: called by feed actions, refresh jobs and routes after they
+// have checked the user. Not a "use server" module, so none of this can
+// be called from the client.
+
+/**
+ * Finds the shared source for a feed URL, creating it on first use
+ * The URL is canonicalized so different spellings share one source
+ */
+export async function getOrCreateFeedSource(url: string) {
+  return wrapDatabaseOperation(async () => {
+    const canonicalUrl = canonicalizeFeedUrl(url);
+
+    return await prisma.feedSource.upsert({
+      where: { url: canonicalUrl },
+      update: {},
+      create: { url: canonicalUrl },
+    });
+  }, "get or create feed source");
+}
+
+/**
+ * Stores the title, description and other metadata read from a feed
+ */
+export async function updateFeedSourceMetadata(
+  sourceId: string,
+  metadata: FeedMetadata,
+) {
+  return wrapDatabaseOperation(async () => {
+    return await prisma.feedSource.update({
+      where: { id: sourceId },
+      data: {
+        title: metadata.title,
+        description: metadata.description,
+        link: metadata.link,
+        imageUrl: metadata.imageUrl,
+        language: metadata.language,
+      },
+    });
+  }, "update feed source metadata");
+}
+
+/**
+ * Returns true if any subscriber of a source turned on full-text extraction
+ */
+export async function isFullTextEnabledForSource(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    const count = await prisma.subscription.count({
+      where: { sourceId, fullTextEnabled: true },
+    });
+    return count > 0;
+  }, "check full-text setting");
+}
+
+/**
+ * Updates the lastFetched timestamp for a feed source and schedules its
+ * next refresh one refresh interval later
+ * Also stores ETag / Last-Modified validators when a full response was received
+ *
+ * @param refreshInterval - The source's adaptive interval in minutes (null = CACHE_WINDOW)
+ */
+export async function updateSourceLastFetched(
+  sourceId: string,
+  refreshInterval: number | null,
+  cacheHeaders?: FeedCacheHeaders,
+) {
+  return wrapDatabaseOperation(async () => {
+    const lastFetched = new Date();
+
+    return await prisma.feedSource.update({
+      where: { id: sourceId },
+      data: {
+        lastFetched,
+        nextRefreshAt: getNextRefreshAt(refreshInterval, lastFetched),
+        ...(cacheHeaders && {
+          etag: cacheHeaders.etag ?? null,
+          lastModified: cacheHeaders.lastModified ?? null,
+        }),
+      },
+    });
+  }, "update feed source last fetched");
+}
+
+/**
+ * Marks a feed source as healthy after a successful fetch (including 304)
+ * Also stores the source's adaptive refresh interval when one was calculated
+ */
+export async function recordSourceSuccess(
+  sourceId: string,
+  refreshInterval?: number,
+) {
+  return wrapDatabaseOperation(async () => {
+    return await prisma.feedSource.update({
+      where: { id: sourceId },
+      data: {
+        consecutiveFailures: 0,
+        lastError: null,
+        lastSuccessAt: new Date(),
+        nextRetryAt: null,
+        ...(refreshInterval !== undefined && { refreshInterval }),
+      },
+    });
+  }, "record feed source success");
+}
+
+/**
+ * Records a failed fetch for a feed source and schedules the next retry
+ * with exponential backoff (see getBackoffDelay)
+ *
+ * The failure count is incremented in the database, so concurrent failures
+ * (e.g. a manual refresh racing the cron) each count, and the backoff is
+ * based on the count the update returns.
+ */
+export async function recordSourceFailure(
+  sourceId: string,
+  errorMessage: string,
+) {
+  return wrapDatabaseOperation(async () => {
+    const { consecutiveFailures } = await prisma.feedSource.update({
+      where: { id: sourceId },
+      data: {
+        consecutiveFailures: { increment: 1 },
+        lastError: errorMessage,
+      },
+      select: { consecutiveFailures: true },
+    });
+
+    const nextRetryAt = new Date(
+      Date.now() + getBackoffDelay(consecutiveFailures),
+    );
+
+    await prisma.feedSource.update({
+      where: { id: sourceId },
+      data: { nextRetryAt },
+    });
+
+    return { consecutiveFailures, nextRetryAt };
+  }, "record feed source failure");
+}
+
+/**
+ * Deletes a feed source, handing its articles over to their other sources
+ *
+ * Stories are shared: one published by several sources stays, with the
+ * deleted source removed from sourceIds and - if it was the owner -
+ * sourceId moved to the next remaining source, so the required source
+ * relation never points at a deleted document. Stories only this source
+ * published are deleted. Subscriptions cascade with the source.
+ *
+ * @param sourceId - Feed source to delete
+ * @returns Number of articles moved to another owner and deleted
+ */
+export async function deleteFeedSource(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    const oid = { $oid: sourceId };
+    const owned = await prisma.rssArticle.count({ where: { sourceId } });
+
+    // MongoDB-specific: a pipeline update drops the source and picks the
+    // next owner from the remaining sources in one command
+    await prisma.$runCommandRaw({
+      update: "RssArticle",
+      updates: [
+        {
+          q: { $or: [{ sourceIds: oid }, { sourceId: oid }] },
+          u: [
+            {
+              $set: {
+                sourceIds: {
+                  $filter: {
+                    input: { $ifNull: ["$sourceIds", []] },
+                    cond: { $ne: ["$$this", oid] },
+                  },
+                },
+              },
+            },
+            {
+              $set: {
+                sourceId: {
+                  $cond: [
+                    {
+                      $and: [
+                        { $eq: ["$sourceId", oid] },
+                        { $gt: [{ $size: "$sourceIds" }, 0] },
+                      ],
+                    },
+                    { $arrayElemAt: ["$sourceIds", 0] },
+                    "$sourceId",
+                  ],
+                },
+                updatedAt: "$$NOW",
+              },
+            },
+          ],
+          multi: true,
+        },
+      ],
+    });
+
+    // Whatever still points at the source had no other source to move to
+    const { count: deleted } = await prisma.rssArticle.deleteMany({
+      where: { sourceId },
+    });
+
+    await prisma.refreshLease.deleteMany({ where: { sourceId } });
+    await prisma.feedSource.delete({ where: { id: sourceId } });
+
+    return { reassigned: owned - deleted, deleted };
+  }, "delete feed source");
+}
+
+/**
+ * Fetches a feed source and stores new articles
+ *
+ * Uses a conditional GET with the source's stored ETag / Last-Modified.
+ * A 304 Not Modified is a successful no-op refresh: only lastFetched moves.
+ * Every attempt updates the source's fetch health; failures schedule a retry
+ * with exponential backoff and are rethrown to the caller. A response whose
+ * articles can't be stored is a failure too: the source keeps its old
+ * validators, so the next attempt gets the full feed instead of a 304.
+ *
+ * One fetch serves every subscriber: articles belong to the source, not
+ * to a user's subscription.
+ */
+export async function fetchAndStoreSource(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    // Get the source details
+    const source = await prisma.feedSource.findUnique({
+      where: { id: sourceId },
+    });
+
+    if (!source) {
+      throw new Error(`Feed source with ID ${sourceId} not found`);
+    }
+
+    // Fetch and parse the RSS feed (conditional on the stored validators)
+    let result: FeedFetchResult;
+    try {
+      result = await fetchAndParseFeed(source.url, sourceId, {
+        etag: source.etag,
+        lastModified: source.lastModified,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await recordSourceFailure(sourceId, errorMessage);
+      throw error;
+    }
+
+    // Nothing changed upstream - just mark the source as fresh
+    if (result.notModified) {
+      const { refreshInterval } = await recordSourceSuccess(sourceId);
+      await updateSourceLastFetched(sourceId, refreshInterval);
+
+      return {
+        metadata: null,
+        created: 0,
+        updated: 0,
+        skipped: 0,
+        errors: 0,
+        notModified: true,
+      };
+    }
+
+    // Items past the retention period would be pruned again on the next
+    // run and come back on the next fetch, so they aren't stored at all
+    const retentionCutoff = getRetentionCutoff();
+
+    // Convert ArticleData to format expected by bulkCreateRssArticles
+    const articlesToCreate = result.articles
+      .filter((article) => article.pubDate >= retentionCutoff)
+      .map((article: ArticleData) => ({
+        sourceId,
+        guid: article.guid,
+        title: article.title,
+        link: article.link,
+        content: article.content,
+        contentMarkdown: article.contentMarkdown,
+        summary: article.summary,
+        pubDate: article.pubDate,
+        author: article.author,
+        categories: article.categories,
+        imageUrl: article.imageUrl,
+        enclosures: article.enclosures,
+      }));
+
+    // Store articles with automatic deduplication
+    const bulkResult = await bulkCreateRssArticles(articlesToCreate);
+    if (bulkResult.errors > 0) {
+      const errorMessage = "Failed to store articles";
+      await recordSourceFailure(sourceId, errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    // Re-estimate how often this source should be refreshed; undated
+    // items all carry the fetch time and say nothing about the cadence
+    const { refreshInterval } = await recordSourceSuccess(
+      sourceId,
+      calculateRefreshInterval(
+        result.articles
+          .filter((article) => !article.undated)
+          .map((article) => article.pubDate),
+        result.metadata.refreshHintMinutes,
+      ),
+    );
+
+    // Optional: fetch article pages for summary-only feeds
+    // Runs if any subscriber turned it on; problems never fail the refresh
+    if (await isFullTextEnabledForSource(sourceId)) {
+      try {
+        await extractFullTextForSource(sourceId);
+      } catch (extractError) {
+        console.error("Failed to extract full text:", extractError);
+      }
+    }
+
+    // Update the source's lastFetched timestamp and cache validators
+    await updateSourceLastFetched(
+      sourceId,
+      refreshInterval,
+      result.cacheHeaders,
+    );
+
+    return {
+      metadata: result.metadata,
+      created: bulkResult.created,
+      updated: bulkResult.updated,
+      skipped: bulkResult.skipped,
+      errors: bulkResult.errors,
+      notModified: false,
+    };
+  }, "fetch feed");
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createArticleFilter, validateFilterRules } from "./filters";
+import type { FeedFilterRule, FilterableArticle } from "./types";
+
+function regexRule(
+  pattern: string,
+  field: FeedFilterRule["field"] = "title",
+): FeedFilterRule {
+  return { action: "exclude", field, matchType: "regex", pattern };
+}
+
+function article(overrides: Partial<FilterableArticle>): FilterableArticle {
+  return { title: "", categories: [], ...overrides };
+}
+
+describe("validateFilterRules", () => {
+  it("accepts common regexes", () => {
+    const rules = [
+      regexRule("^Sponsored:"),
+      regexRule("\\bhiring\\b"),
+      regexRule("(?:job|career)s? (?:post|opening)"),
+    ];
+
+    expect(validateFilterRules(rules)).toEqual(rules);
+  });
+
+  it("rejects backreferences and lookarounds", () => {
+    expect(() => validateFilterRules([regexRule("(a)\\1")])).toThrow(
+      "Rule 1: invalid regular expression",
+    );
+    expect(() => validateFilterRules([regexRule("foo(?=bar)")])).toThrow(
+      "Rule 1: invalid regular expression",
+    );
+  });
+});
+
+describe("createArticleFilter", () => {
+  it("matches regexes case-insensitively", () => {
+    const filter = createArticleFilter([regexRule("^sponsored:")]);
+
+    expect(filter(article({ title: "SPONSORED: Buy now" }))).toEqual([0]);
+    expect(filter(article({ title: "Not sponsored" }))).toEqual([]);
+  });
+
+  it("runs nested quantifiers in linear time", () => {
+    // Exponential for a backtracking engine: 2^5000 ways to split the a's
+    const filter = createArticleFilter([regexRule("(a+)+b", "content")]);
+    const start = performance.now();
+
+    expect(
+      filter(article({ contentMarkdown: `${"a".repeat(5000)}!` })),
+    ).toEqual([]);
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it("never matches a stored regex RE2 can't compile", () => {
+    const filter = createArticleFilter([regexRule("(\\w)\\1")]);
+
+    expect(filter(article({ title: "aa" }))).toEqual([]);
+  });
+});
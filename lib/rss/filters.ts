@@ -0,0 +1,208 @@
+import { RE2JS } from "re2js";
+import type { FeedFilterRule, FilterableArticle } from "./types";
+
+// ============================================
+// FEED FILTER RULES
+// ============================================
+
+/**
+ * Maximum number of filter rules per feed
+ */
+export const MAX_FILTER_RULES = 50;
+
+/**
+ * Longest keyword or regex a rule may use
+ */
+export const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Only the start of long article bodies is searched
+ * Regex matching takes time linear in the text, so this bounds the cost of
+ * each rule on a huge article
+ */
+const MAX_MATCH_TEXT_LENGTH = 20_000;
+
+const FILTER_ACTIONS = ["include", "exclude"] as const;
+const FILTER_FIELDS = ["title", "categories", "author", "content"] as const;
+const FILTER_MATCH_TYPES = ["keyword", "regex"] as const;
+
+/**
+ * Tells which rules drop an article
+ * Returns the indexes of the dropping rules; empty if the article is kept
+ */
+export type ArticleFilter = (article: FilterableArticle) => number[];
+
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: unknown,
+): value is T {
+  return values.includes(value as T);
+}
+
+/**
+ * Checks and normalizes filter rules submitted by a user
+ *
+ * @param rules - Rules from the feed editor
+ * @returns The rules with trimmed patterns
+ * @throws Error describing the first invalid rule
+ */
+export function validateFilterRules(rules: unknown): FeedFilterRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error("Filter rules must be a list");
+  }
+  if (rules.length > MAX_FILTER_RULES) {
+    throw new Error(`A feed can have at most ${MAX_FILTER_RULES} filter rules`);
+  }
+
+  return rules.map((rule, index) => {
+    const label = `Rule ${index + 1}`;
+    const pattern =
+      typeof rule?.pattern === "string" ? rule.pattern.trim() : "";
+
+    if (!isOneOf(FILTER_ACTIONS, rule?.action)) {
+      throw new Error(`${label}: action must be include or exclude`);
+    }
+    if (!isOneOf(FILTER_FIELDS, rule?.field)) {
+      throw new Error(
+        `${label}: field must be title, categories, author or content`,
+      );
+    }
+    if (!isOneOf(FILTER_MATCH_TYPES, rule?.matchType)) {
+      throw new Error(`${label}: match type must be keyword or regex`);
+    }
+    if (!pattern) {
+      throw new Error(`${label}: pattern is required`);
+    }
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      throw new Error(
+        `${label}: pattern must be at most ${MAX_PATTERN_LENGTH} characters`,
+      );
+    }
+    if (rule.matchType === "regex") {
+      try {
+        compileRegex(pattern);
+      } catch {
+        throw new Error(
+          `${label}: invalid regular expression (backreferences and lookarounds aren't supported)`,
+        );
+      }
+    }
+
+    return {
+      action: rule.action,
+      field: rule.field,
+      matchType: rule.matchType,
+      pattern,
+    };
+  });
+}
+
+/**
+ * Converts rules read from the database, skipping any with unknown values
+ */
+export function toFeedFilterRules(
+  rules: {
+    action: string;
+    field: string;
+    matchType: string;
+    pattern: string;
+  }[],
+): FeedFilterRule[] {
+  return rules.filter(
+    (rule): rule is FeedFilterRule =>
+      isOneOf(FILTER_ACTIONS, rule.action) &&
+      isOneOf(FILTER_FIELDS, rule.field) &&
+      isOneOf(FILTER_MATCH_TYPES, rule.matchType),
+  );
+}
+
+/**
+ * Returns the texts a rule's field refers to
+ * Content is the article's Markdown, falling back to its summary
+ */
+function getFieldTexts(
+  article: FilterableArticle,
+  field: FeedFilterRule["field"],
+): string[] {
+  switch (field) {
+    case "title":
+      return [article.title];
+    case "categories":
+      return article.categories;
+    case "author":
+      return article.author ? [article.author] : [];
+    case "content":
+      return [
+        (article.contentMarkdown || article.summary || "").slice(
+          0,
+          MAX_MATCH_TEXT_LENGTH,
+        ),
+      ];
+  }
+}
+
+/**
+ * Compiles a user-supplied regex, case-insensitive
+ *
+ * Patterns run on RE2 rather than the JavaScript engine: RE2 matches in
+ * linear time, so a pattern like (a+)+b can't stall the server on a
+ * crafted article. It has no backreferences or lookarounds.
+ *
+ * @throws RE2JSSyntaxException if the pattern isn't valid RE2 syntax
+ */
+function compileRegex(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+/**
+ * Builds a case-insensitive matcher for a rule
+ *
+ * Keywords match anywhere in the text ("sponsor" matches "Sponsored").
+ * A regex that no longer compiles never matches.
+ */
+function compileRule(rule: FeedFilterRule): (text: string) => boolean {
+  if (rule.matchType === "keyword") {
+    const keyword = rule.pattern.toLowerCase();
+    return (text) => text.toLowerCase().includes(keyword);
+  }
+
+  try {
+    const regex = compileRegex(rule.pattern);
+    return (text) => regex.test(text);
+  } catch {
+    return () => false;
+  }
+}
+
+/**
+ * Compiles a feed's rules into an article filter
+ *
+ * - If the feed has include rules, an article must match at least one of
+ *   them; otherwise every include rule counts as dropping it
+ * - An article matching any exclude rule is dropped by that rule
+ *
+ * @param rules - The feed's filter rules
+ * @returns Function returning the indexes of the rules that drop an article
+ */
+export function createArticleFilter(rules: FeedFilterRule[]): ArticleFilter {
+  const compiled = rules.map((rule, index) => {
+    const matches = compileRule(rule);
+    return {
+      index,
+      action: rule.action,
+      test: (article: FilterableArticle) =>
+        getFieldTexts(article, rule.field).some(matches),
+    };
+  });
+  const includes = compiled.filter((rule) => rule.action === "include");
+  const excludes = compiled.filter((rule) => rule.action === "exclude");
+
+  return (article) => {
+    if (includes.length > 0 && !includes.some((rule) => rule.test(article))) {
+      return includes.map((rule) => rule.index);
+    }
+    return excludes
+      .filter((rule) => rule.test(article))
+      .map((rule) => rule.index);
+  };
+}
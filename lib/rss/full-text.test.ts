@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { extractReadableText, MAX_FULL_TEXT_LENGTH } from "./full-text";
+
+const ARTICLE_URL = "https://news.example.com/2025/01/bike-lanes";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`./__fixtures__/full-text/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+describe("extractReadableText", () => {
+  it("extracts the article body as paragraphs without page chrome", () => {
+    const text = extractReadableText(readFixture("article.html"), ARTICLE_URL);
+
+    expect(text).not.toBeNull();
+    expect(text).toContain(
+      "The city council voted 7 to 2 on Tuesday night to approve a network of protected bike lanes",
+    );
+    expect(text).toContain(
+      "comment form will stay open for another thirty days.",
+    );
+    expect(text).toMatch(/parking spaces\.\n\nConstruction is expected/);
+    expect(text).not.toContain("All rights reserved");
+    expect(text).not.toContain("Politics");
+  });
+
+  it("returns null for a page with a noindex robots meta tag", () => {
+    expect(
+      extractReadableText(readFixture("robots-noindex.html"), ARTICLE_URL),
+    ).toBeNull();
+  });
+
+  it("returns null for a page with a noarchive robots meta tag", () => {
+    expect(
+      extractReadableText(readFixture("robots-noarchive.html"), ARTICLE_URL),
+    ).toBeNull();
+  });
+
+  it("returns null when the extracted text is under the minimum length", () => {
+    expect(
+      extractReadableText(readFixture("too-short.html"), ARTICLE_URL),
+    ).toBeNull();
+  });
+
+  it("truncates long articles", () => {
+    const paragraph = `<p>${"Lorem ipsum dolor sit amet. ".repeat(40)}</p>`;
+    const html = `<html><body><article><h1>Long</h1>${paragraph.repeat(30)}</article></body></html>`;
+
+    expect(extractReadableText(html, ARTICLE_URL)).toHaveLength(
+      MAX_FULL_TEXT_LENGTH,
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { decodeEntities } from "./adapters/utils";
+import { USER_AGENT } from "./parser";
+import { isAllowedByRobots } from "./robots";
+
+// ============================================
+// FULL-TEXT EXTRACTION
+// ============================================
+
+const FETCH_TIMEOUT = 10000; // 10 second timeout
+
+/**
+ * Longest full text stored per article (characters)
+ * Keeps documents small; the prompt only uses an excerpt anyway.
+ */
+export const MAX_FULL_TEXT_LENGTH = 20000;
+
+/**
+ * Extractions shorter than this are treated as failures
+ * (paywalls, cookie walls and index pages tend to yield a few lines)
+ */
+const MIN_FULL_TEXT_LENGTH = 200;
+
+/**
+ * Robots directives that mean "don't reuse this page's content"
+ * Storing the text is keeping a copy, so noarchive counts too.
+ */
+const BLOCKING_ROBOTS_DIRECTIVES = ["noindex", "nofollow", "noarchive", "none"];
+
+/**
+ * Returns true if a robots meta tag / X-Robots-Tag value blocks extraction
+ */
+function hasBlockingDirective(value: string | null | undefined): boolean {
+  if (!value) {
+    return false;
+  }
+  return value
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .some((directive) => BLOCKING_ROBOTS_DIRECTIVES.includes(directive));
+}
+
+/**
+ * Converts Readability's cleaned HTML to plain text with paragraph breaks
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(
+        /<\/(p|div|h[1-6]|li|blockquote|pre|section|article|tr|figure)>/gi,
+        "\n\n",
+      )
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extracts the readable article text from an HTML page
+ *
+ * Returns null when the page opts out via <meta name="robots"> or
+ * when Readability finds too little content.
+ *
+ * @param html - Page HTML
+ * @param url - Page URL (used to resolve relative links)
+ * @returns Clean article text, or null
+ */
+export function extractReadableText(html: string, url: string): string | null {
+  const { document } = parseHTML(html);
+
+  const robotsMeta = [...document.querySelectorAll("meta[name]")].filter(
+    (meta) => meta.getAttribute("name")?.toLowerCase() === "robots",
+  );
+  if (
+    robotsMeta.some((meta) =>
+      hasBlockingDirective(meta.getAttribute("content")),
+    )
+  ) {
+    return null;
+  }
+
+  // Readability reads documentURI / baseURI to resolve relative URLs
+  Object.defineProperty(document, "documentURI", { value: url });
+
+  const article = new Readability(document as unknown as Document).parse();
+  const text = htmlToText(article?.content ?? "");
+
+  if (text.length < MIN_FULL_TEXT_LENGTH) {
+    return null;
+  }
+
+  return text.slice(0, MAX_FULL_TEXT_LENGTH);
+}
+
+/**
+ * Fetches an article page and extracts its full text
+ *
+ * Respects the site's wishes before using its content:
+ * 1. robots.txt must allow our user agent to fetch the page
+ * 2. X-Robots-Tag / <meta name="robots"> must not say noindex, nofollow
+ *    or noarchive
+ *
+ * @param url - Article link from the feed
+ * @returns Clean article text, or null if not allowed or nothing was found
+ * @throws Error if the page can't be downloaded
+ */
+export async function fetchFullText(url: string): Promise<string | null> {
+  if (!/^https?:\/\//i.test(url)) {
+    return null;
+  }
+
+  if (!(await isAllowedByRobots(url, USER_AGENT))) {
+    return null;
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      Accept: "text/html,application/xhtml+xml",
+    },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Status code ${response.status}`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType.includes("html")) {
+    return null;
+  }
+
+  if (hasBlockingDirective(response.headers.get("x-robots-tag"))) {
+    return null;
+  }
+
+  return extractReadableText(await response.text(), response.url || url);
+}
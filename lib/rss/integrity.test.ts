@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { checkArticleIntegrity } from "./integrity";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    feedSource: { findMany: vi.fn() },
+    rssArticle: { findMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+    subscription: { findMany: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+const sourceFindMany = vi.mocked(prisma.feedSource.findMany);
+const articleFindMany = vi.mocked(prisma.rssArticle.findMany);
+const articleUpdate = vi.mocked(prisma.rssArticle.update);
+const subscriptionFindMany = vi.mocked(prisma.subscription.findMany);
+
+const BLOG = "65a1f0c2e4b0a1b2c3d4e5f6";
+const NEWS = "65a1f0c2e4b0a1b2c3d4e5f7";
+const DELETED = "65a1f0c2e4b0a1b2c3d4e5f8";
+
+/**
+ * Stored articles returned by the first batch query
+ */
+function givenArticles(
+  articles: { id: string; sourceId: string; sourceIds: string[] }[],
+) {
+  articleFindMany.mockResolvedValueOnce(articles as never);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  sourceFindMany.mockResolvedValue([{ id: BLOG }, { id: NEWS }] as never);
+  articleFindMany.mockResolvedValue([]);
+  subscriptionFindMany.mockResolvedValue([]);
+});
+
+describe("checkArticleIntegrity", () => {
+  it("leaves a merged story whose owner isn't listed first alone", async () => {
+    givenArticles([
+      { id: "article-1", sourceId: NEWS, sourceIds: [BLOG, NEWS] },
+    ]);
+
+    const report = await checkArticleIntegrity({ repair: true });
+
+    expect(report).toMatchObject({ scanned: 1, reassigned: 0, cleaned: 0 });
+    expect(articleUpdate).not.toHaveBeenCalled();
+  });
+
+  it("removes deleted sources from the list", async () => {
+    givenArticles([
+      { id: "article-1", sourceId: NEWS, sourceIds: [DELETED, NEWS] },
+    ]);
+
+    const report = await checkArticleIntegrity({ repair: true });
+
+    expect(report).toMatchObject({ reassigned: 0, cleaned: 1 });
+    expect(articleUpdate).toHaveBeenCalledWith({
+      where: { id: "article-1" },
+      data: { sourceId: NEWS, sourceIds: [NEWS] },
+    });
+  });
+
+  it("removes repeated source IDs", async () => {
+    givenArticles([
+      { id: "article-1", sourceId: BLOG, sourceIds: [BLOG, NEWS, BLOG] },
+    ]);
+
+    const report = await checkArticleIntegrity();
+
+    expect(report).toMatchObject({ cleaned: 1 });
+    expect(articleUpdate).not.toHaveBeenCalled();
+  });
+});
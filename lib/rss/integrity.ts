@@ -0,0 +1,178 @@
+import { prisma } from "@/lib/prisma";
+
+// ============================================
+// ARTICLE INTEGRITY CHECK
+// ============================================
+
+/**
+ * Number of articles checked per query
+ */
+const CHECK_BATCH_SIZE = 1000;
+
+/**
+ * Number of example article IDs listed per problem in the report
+ */
+const SAMPLE_SIZE = 20;
+
+/**
+ * Works out the source fields an article should have
+ *
+ * Missing sources are dropped from sourceIds and the owner is kept when
+ * it still exists (added to sourceIds if it was missing there), otherwise
+ * the first remaining source becomes the owner.
+ *
+ * @returns The repaired fields, or null if no source is left
+ */
+function repairSources(
+  article: { sourceId: string; sourceIds: string[] },
+  existingSourceIds: Set<string>,
+): { sourceId: string; sourceIds: string[] } | null {
+  const sourceIds = [
+    ...new Set(
+      [article.sourceId, ...article.sourceIds].filter((id) =>
+        existingSourceIds.has(id),
+      ),
+    ),
+  ];
+
+  if (sourceIds.length === 0) {
+    return null;
+  }
+
+  return {
+    sourceId: existingSourceIds.has(article.sourceId)
+      ? article.sourceId
+      : sourceIds[0],
+    sourceIds,
+  };
+}
+
+/**
+ * Tells whether two source ID lists hold the same IDs, in any order
+ * A list with repeated IDs never matches a list without them
+ */
+function isSameIdSet(a: string[], b: string[]): boolean {
+  const ids = new Set(b);
+  return a.length === b.length && a.every((id) => ids.has(id));
+}
+
+/**
+ * Finds, and optionally repairs, articles and subscriptions pointing at
+ * feed sources that no longer exist
+ *
+ * MongoDB doesn't enforce relations, so a source deleted outside
+ * deleteFeedSource (or by older code) can leave articles whose required
+ * `source` relation is broken. For each article:
+ * - owner deleted, other sources left → ownership moves to one of them
+ * - some of sourceIds deleted → they are removed from the list
+ * - owner missing from sourceIds → it is added back
+ * - no source left → the article is deleted (nothing can show it)
+ * Subscriptions to a deleted source are deleted.
+ *
+ * @param options - repair: apply the fixes (default: report only)
+ * @returns Counts per problem and example article IDs
+ */
+export async function checkArticleIntegrity(options?: { repair?: boolean }) {
+  const repair = options?.repair ?? false;
+
+  const sources = await prisma.feedSource.findMany({ select: { id: true } });
+  const existingSourceIds = new Set(sources.map((source) => source.id));
+
+  const report = {
+    repair,
+    scanned: 0,
+    reassigned: 0,
+    cleaned: 0,
+    orphaned: 0,
+    danglingSubscriptions: 0,
+    samples: {
+      reassigned: [] as string[],
+      cleaned: [] as string[],
+      orphaned: [] as string[],
+    },
+  };
+
+  const addSample = (list: string[], id: string) => {
+    if (list.length < SAMPLE_SIZE) {
+      list.push(id);
+    }
+  };
+
+  let lastId: string | undefined;
+
+  while (true) {
+    const batch = await prisma.rssArticle.findMany({
+      where: lastId ? { id: { gt: lastId } } : {},
+      select: { id: true, sourceId: true, sourceIds: true },
+      orderBy: { id: "asc" },
+      take: CHECK_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+    lastId = batch[batch.length - 1].id;
+    report.scanned += batch.length;
+
+    const orphanIds: string[] = [];
+
+    for (const article of batch) {
+      const fixed = repairSources(article, existingSourceIds);
+
+      if (!fixed) {
+        report.orphaned++;
+        addSample(report.samples.orphaned, article.id);
+        orphanIds.push(article.id);
+        continue;
+      }
+
+      const ownerChanged = fixed.sourceId !== article.sourceId;
+      const listChanged = !isSameIdSet(fixed.sourceIds, article.sourceIds);
+
+      if (!ownerChanged && !listChanged) {
+        continue;
+      }
+
+      if (ownerChanged) {
+        report.reassigned++;
+        addSample(report.samples.reassigned, article.id);
+      } else {
+        report.cleaned++;
+        addSample(report.samples.cleaned, article.id);
+      }
+
+      if (repair) {
+        await prisma.rssArticle.update({
+          where: { id: article.id },
+          data: fixed,
+        });
+      }
+    }
+
+    if (repair && orphanIds.length > 0) {
+      await prisma.rssArticle.deleteMany({
+        where: { id: { in: orphanIds } },
+      });
+    }
+  }
+
+  const danglingSubscriptions = await prisma.subscription.findMany({
+    where: { sourceId: { notIn: [...existingSourceIds] } },
+    select: { id: true },
+  });
+  report.danglingSubscriptions = danglingSubscriptions.length;
+
+  if (repair && danglingSubscriptions.length > 0) {
+    await prisma.subscription.deleteMany({
+      where: { id: { in: danglingSubscriptions.map((s) => s.id) } },
+    });
+  }
+
+  console.log(
+    `${repair ? "" : "[report only] "}Article integrity check: ${report.scanned} scanned, ` +
+      `${report.reassigned} reassigned, ${report.cleaned} cleaned, ` +
+      `${report.orphaned} orphaned, ${report.danglingSubscriptions} dangling subscriptions`,
+  );
+
+  return report;
+}
@@ -0,0 +1,161 @@
+import {
+  asArray,
+  createXmlParser,
+  isXmlNode,
+  type XmlNode,
+  xmlAttr,
+} from "./adapters/utils";
+import type { OpmlFeed } from "./types";
+
+// ============================================
+// OPML IMPORT / EXPORT
+// ============================================
+
+const xmlParser = createXmlParser(["outline"]);
+
+/**
+ * Separator used when nested OPML folders are flattened to one folder name
+ */
+const FOLDER_SEPARATOR = " / ";
+
+/**
+ * Walks nested <outline> elements and collects feed subscriptions
+ *
+ * Outlines with an xmlUrl are feeds. Outlines without one are folders,
+ * and their text becomes part of the folder path of every feed inside.
+ */
+function collectFeeds(
+  outlines: unknown,
+  folderPath: string[],
+  feeds: OpmlFeed[],
+) {
+  for (const outline of asArray(outlines).filter(isXmlNode)) {
+    const xmlUrl = xmlAttr(outline, "xmlUrl");
+    const label = xmlAttr(outline, "title") || xmlAttr(outline, "text");
+
+    if (xmlUrl) {
+      feeds.push({
+        url: xmlUrl,
+        title: label,
+        folder:
+          folderPath.length > 0 ? folderPath.join(FOLDER_SEPARATOR) : undefined,
+        link: xmlAttr(outline, "htmlUrl"),
+      });
+    }
+
+    collectFeeds(
+      outline.outline,
+      xmlUrl || !label ? folderPath : [...folderPath, label],
+      feeds,
+    );
+  }
+}
+
+/**
+ * Parses an OPML 1.0 / 2.0 document into a flat list of feeds
+ *
+ * @param opml - OPML XML document
+ * @returns Feeds in document order, with their folder paths
+ * @throws Error if the document is not OPML
+ */
+export function parseOpml(opml: string): OpmlFeed[] {
+  const document = xmlParser.parse(opml) as XmlNode;
+  const root = document.opml;
+  const body = isXmlNode(root) ? root.body : undefined;
+
+  if (!isXmlNode(body)) {
+    throw new Error("File is not a valid OPML document");
+  }
+
+  const feeds: OpmlFeed[] = [];
+  collectFeeds(body.outline, [], feeds);
+  return feeds;
+}
+
+/**
+ * Escapes a value for use inside an XML attribute
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Builds a single feed <outline> line
+ */
+function buildFeedOutline(feed: OpmlFeed, indent: string): string {
+  const label = escapeXml(feed.title || feed.url);
+  const htmlUrl = feed.link ? ` htmlUrl="${escapeXml(feed.link)}"` : "";
+
+  return `${indent}<outline type="rss" text="${label}" title="${label}" xmlUrl="${escapeXml(feed.url)}"${htmlUrl}/>`;
+}
+
+/**
+ * Folder tree used to write nested outlines
+ */
+interface OpmlFolder {
+  feeds: OpmlFeed[];
+  children: Map<string, OpmlFolder>;
+}
+
+/**
+ * Writes a folder's subfolders and feeds as <outline> lines
+ */
+function buildFolderOutlines(folder: OpmlFolder, depth: number): string[] {
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+
+  for (const [name, child] of folder.children) {
+    const label = escapeXml(name);
+    lines.push(`${indent}<outline text="${label}" title="${label}">`);
+    lines.push(...buildFolderOutlines(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  }
+
+  lines.push(...folder.feeds.map((feed) => buildFeedOutline(feed, indent)));
+  return lines;
+}
+
+/**
+ * Builds an OPML 2.0 document from a list of feeds
+ *
+ * Folder paths ("AI / Research") become nested folder outlines;
+ * feeds without a folder are written at the top level.
+ *
+ * @param feeds - Feeds to export
+ * @param title - Document title
+ * @returns OPML XML document
+ */
+export function buildOpml(feeds: OpmlFeed[], title: string): string {
+  const root: OpmlFolder = { feeds: [], children: new Map() };
+
+  for (const feed of feeds) {
+    let folder = root;
+    for (const name of feed.folder?.split(FOLDER_SEPARATOR) ?? []) {
+      let child = folder.children.get(name);
+      if (!child) {
+        child = { feeds: [], children: new Map() };
+        folder.children.set(name, child);
+      }
+      folder = child;
+    }
+    folder.feeds.push(feed);
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    ...buildFolderOutlines(root, 2),
+    "  </body>",
+    "</opml>",
+  ].join("\n");
+}
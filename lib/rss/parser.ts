@@ -1,78 +1,83 @@
-import Parser from "rss-parser";
-import type { ArticleData, FeedMetadata } from "./types";
+import { parseFeedBody } from "./adapters";
+import { normalizeArticleContent } from "./content";
+import type {
+  ArticleData,
+  FeedCacheHeaders,
+  FeedFetchResult,
+  FeedMetadata,
+} from "./types";
 
 // Re-export types for convenience
-export type { ArticleData, FeedMetadata };
+export type { ArticleData, FeedCacheHeaders, FeedFetchResult, FeedMetadata };
 
 // ============================================
 // RSS PARSER UTILITIES
 // ============================================
 
-/**
- * Type definition for RSS category as returned by xml2js parser
- * RSS feeds use xml2js which parses <category domain="...">Value</category> as:
- * { _: "Value", $: { domain: "..." } }
- */
-interface RssCategoryObject {
-  _: string; // The actual category text
-  $?: Record<string, string>; // Optional attributes like domain
-}
-
-/**
- * Categories can be strings (simple RSS) or objects (RSS with attributes)
- */
-type RssCategory = string | RssCategoryObject;
+const FETCH_TIMEOUT = 10000; // 10 second timeout
+export const USER_AGENT = "Mozilla/5.0 (compatible; RSS Newsletter Bot/1.0)";
 
 /**
- * Normalizes categories from various RSS formats to string array
- * Handles both simple string categories and XML-parsed category objects
+ * Downloads a feed body over HTTP
  *
- * @param rawCategories - Categories in any format from RSS parser
- * @returns Array of category strings, filtered and trimmed
+ * Sends If-None-Match / If-Modified-Since when validators from a previous
+ * fetch are known, so unchanged feeds cost a 304 instead of a full download.
+ *
+ * @returns Feed body, content type and fresh validators, or null on 304 Not Modified
  */
-function normalizeCategories(
-  rawCategories: RssCategory[] | undefined,
-): string[] {
-  if (!Array.isArray(rawCategories)) {
-    return [];
+export async function downloadFeed(
+  url: string,
+  cacheHeaders?: FeedCacheHeaders,
+): Promise<{
+  body: string;
+  contentType: string | null;
+  cacheHeaders: FeedCacheHeaders;
+} | null> {
+  const headers: Record<string, string> = {
+    "User-Agent": USER_AGENT,
+  };
+
+  if (cacheHeaders?.etag) {
+    headers["If-None-Match"] = cacheHeaders.etag;
+  }
+  if (cacheHeaders?.lastModified) {
+    headers["If-Modified-Since"] = cacheHeaders.lastModified;
   }
 
-  return rawCategories
-    .map((cat) => {
-      // Simple string category
-      if (typeof cat === "string") {
-        return cat.trim();
-      }
+  const response = await fetch(url, {
+    headers,
+    cache: "no-store",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
 
-      // XML-parsed category object with text content in _ property
-      if (
-        typeof cat === "object" &&
-        cat !== null &&
-        typeof cat._ === "string"
-      ) {
-        return cat._.trim();
-      }
+  if (response.status === 304) {
+    return null;
+  }
 
-      // Unexpected format - log warning and skip
-      console.warn("Unexpected category format:", cat);
-      return "";
-    })
-    .filter((cat) => cat.length > 0);
-}
+  if (!response.ok) {
+    throw new Error(`Status code ${response.status}`);
+  }
 
-const parser = new Parser({
-  timeout: 10000, // 10 second timeout
-  headers: {
-    "User-Agent": "Mozilla/5.0 (compatible; RSS Newsletter Bot/1.0)",
-  },
-});
+  return {
+    body: await response.text(),
+    contentType: response.headers.get("content-type"),
+    cacheHeaders: {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+    },
+  };
+}
 
 /**
- * Validates if a URL returns a valid RSS feed
+ * Validates if a URL returns a valid RSS, Atom or JSON feed
  */
 export async function validateFeedUrl(url: string): Promise<boolean> {
   try {
-    await parser.parseURL(url);
+    const download = await downloadFeed(url);
+    if (!download) {
+      return false;
+    }
+    parseFeedBody(download.body, download.contentType, url);
     return true;
   } catch (error) {
     console.error("Invalid RSS feed URL:", error);
@@ -81,12 +86,22 @@ export async function validateFeedUrl(url: string): Promise<boolean> {
 }
 
 /**
- * Parses an RSS feed from URL and returns the complete feed object
+ * Parses a feed from URL with the matching source adapter
+ * Returns null when the feed has not changed since the given validators
  */
-export async function parseFeedUrl(url: string) {
+export async function parseFeedUrl(
+  url: string,
+  feedId: string,
+  cacheHeaders?: FeedCacheHeaders,
+) {
   try {
-    const feed = await parser.parseURL(url);
-    return feed;
+    const download = await downloadFeed(url, cacheHeaders);
+    if (!download) {
+      return null;
+    }
+
+    const feed = parseFeedBody(download.body, download.contentType, feedId);
+    return { feed, cacheHeaders: download.cacheHeaders };
   } catch (error) {
     console.error("Failed to parse RSS feed:", error);
     throw new Error(
@@ -98,96 +113,31 @@ export async function parseFeedUrl(url: string) {
 }
 
 /**
- * Extracts feed-level metadata from parsed RSS feed
- */
-export function extractFeedMetadata(
-  feed: Parser.Output<unknown>,
-): FeedMetadata {
-  const feedAny = feed as any;
-  return {
-    title: feed.title || "Untitled Feed",
-    description: feed.description,
-    link: feed.link,
-    imageUrl: feed.image?.url,
-    language: feedAny.language,
-  };
-}
-
-/**
- * Extracts and normalizes article data from RSS feed items
+ * Complete RSS feed fetch and parse operation
+ * Returns both feed metadata and articles, or notModified on a 304
+ * Article content is sanitized and converted to Markdown here, so raw
+ * feed HTML never reaches the database
  */
-export function extractArticles(
-  feed: Parser.Output<unknown>,
+export async function fetchAndParseFeed(
+  url: string,
   feedId: string,
-): ArticleData[] {
-  return feed.items.map((item) => {
-    // Type assertion for fields not in Parser.Item type definition
-    const itemAny = item as any;
-
-    // Use guid if available, fallback to link for deduplication
-    const guid = item.guid || item.link || `${feedId}-${item.title}`;
-
-    // Extract publication date with fallbacks
-    const pubDate = item.isoDate
-      ? new Date(item.isoDate)
-      : item.pubDate
-        ? new Date(item.pubDate)
-        : new Date();
-
-    // Extract content - try various common RSS fields
-    const content =
-      item.content ||
-      itemAny["content:encoded"] ||
-      itemAny.description ||
-      itemAny.summary;
-
-    // Extract summary - prefer contentSnippet over description
-    const summary =
-      item.contentSnippet || itemAny.description || itemAny.summary;
-
-    // Extract author - try various common RSS fields
-    const author = item.creator || itemAny.author;
-
-    // Normalize categories - handles both string arrays and xml2js objects
-    const rawCategories = (item.categories ||
-      itemAny.category ||
-      []) as RssCategory[];
-    const categories = normalizeCategories(rawCategories);
-
-    // Extract image from enclosure if available
-    let imageUrl: string | undefined;
-    if (item.enclosure?.url && item.enclosure?.type?.startsWith("image/")) {
-      imageUrl = item.enclosure.url;
+  cacheHeaders?: FeedCacheHeaders,
+): Promise<FeedFetchResult> {
+  try {
+    const parsed = await parseFeedUrl(url, feedId, cacheHeaders);
+    if (!parsed) {
+      return { notModified: true };
     }
 
-    return {
-      guid,
-      title: item.title || "Untitled",
-      link: item.link || "",
-      content,
-      summary,
-      pubDate,
-      author,
-      categories,
-      imageUrl,
-    };
-  });
-}
-
-/**
- * Complete RSS feed fetch and parse operation
- * Returns both feed metadata and articles
- */
-export async function fetchAndParseFeed(url: string, feedId: string) {
-  try {
-    const feed = await parseFeedUrl(url);
-    const metadata = extractFeedMetadata(feed);
-    const articles = extractArticles(feed, feedId);
+    const { metadata } = parsed.feed;
+    const articles = parsed.feed.articles.map(normalizeArticleContent);
 
     return {
+      notModified: false,
       metadata,
       articles,
-      itemCount: feed.items.length,
+      itemCount: articles.length,
+      cacheHeaders: parsed.cacheHeaders,
     };
   } catch (error) {
     console.error("Failed to fetch and parse feed:", error);
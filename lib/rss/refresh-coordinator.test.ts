@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { fetchAndStoreSource } from "./feed-source";
+import { refreshSource } from "./refresh-coordinator";
+import { acquireRefreshLease, isRefreshLeased } from "./refresh-lease";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    feedSource: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("./feed-source", () => ({ fetchAndStoreSource: vi.fn() }));
+
+vi.mock("./refresh-lease", () => ({
+  acquireRefreshLease: vi.fn(),
+  isRefreshLeased: vi.fn(),
+  releaseRefreshLease: vi.fn(),
+}));
+
+const SOURCE_ID = "65a1f0c2e4b0a1b2c3d4e5f6";
+const FEED_URL = "https://example.com/feed.xml";
+
+const findSource = vi.mocked(prisma.feedSource.findUnique);
+
+/**
+ * How the other instance's refresh left the source
+ */
+function givenSourceState(state: {
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+}) {
+  findSource.mockResolvedValue(state as never);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  // Another instance holds the lease and has just released it
+  vi.mocked(acquireRefreshLease).mockResolvedValue(false);
+  vi.mocked(isRefreshLeased).mockResolvedValue(false);
+});
+
+describe("refreshSource", () => {
+  it("joins another instance's successful refresh", async () => {
+    givenSourceState({
+      lastSuccessAt: new Date(Date.now() + 1000),
+      lastError: null,
+    });
+
+    await expect(refreshSource(SOURCE_ID, FEED_URL)).resolves.toBe("joined");
+    expect(fetchAndStoreSource).not.toHaveBeenCalled();
+  });
+
+  it("fails when the joined refresh failed", async () => {
+    givenSourceState({
+      lastSuccessAt: new Date(Date.now() - 60_000),
+      lastError: "HTTP 503",
+    });
+
+    await expect(refreshSource(SOURCE_ID, FEED_URL)).rejects.toThrow(
+      "HTTP 503",
+    );
+  });
+
+  it("fails when the joined refresh recorded nothing", async () => {
+    givenSourceState({
+      lastSuccessAt: new Date(Date.now() - 60_000),
+      lastError: null,
+    });
+
+    await expect(refreshSource(SOURCE_ID, FEED_URL)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,230 @@
+import { randomUUID } from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import { createSemaphore } from "@/lib/utils/concurrency";
+import { fetchAndStoreSource } from "./feed-source";
+import {
+  acquireRefreshLease,
+  isRefreshLeased,
+  releaseRefreshLease,
+} from "./refresh-lease";
+
+// ============================================
+// REFRESH COORDINATOR
+// ============================================
+
+/**
+ * Maximum number of feed fetches running at once on this server instance
+ */
+export const MAX_CONCURRENT_FETCHES = 10;
+
+/**
+ * Maximum number of fetches running at once against a single host
+ * Keeps us polite to sites that host many feeds (e.g. one per category)
+ */
+export const MAX_CONCURRENT_FETCHES_PER_HOST = 2;
+
+/**
+ * How long a refresh lease is valid (2 minutes)
+ * Long enough for a fetch plus full-text extraction; a crashed holder's
+ * lease expires after this and can be taken over.
+ */
+const LEASE_DURATION = 2 * 60 * 1000;
+
+/**
+ * How often a waiting refresh checks whether the lease was released
+ */
+const LEASE_POLL_INTERVAL = 1000;
+
+/**
+ * Longest a refresh waits for another instance's lease (30 seconds)
+ * After that the caller continues with the articles already stored.
+ */
+const LEASE_WAIT_TIMEOUT = 30 * 1000;
+
+/**
+ * How a refresh request was served
+ * - fetched: this call fetched the source
+ * - joined: another in-flight refresh (here or on another instance) did
+ */
+export type RefreshOutcome = "fetched" | "joined";
+
+const globalLimit = createSemaphore(MAX_CONCURRENT_FETCHES);
+const hostLimits = new Map<string, ReturnType<typeof createSemaphore>>();
+const inFlight = new Map<string, Promise<RefreshOutcome>>();
+
+/**
+ * Runs a task within the per-host and global fetch limits
+ *
+ * The host slot is taken first so a task waiting on a busy host never
+ * holds a global slot other hosts could use.
+ */
+async function runWithFetchLimits<T>(
+  url: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    host = url;
+  }
+
+  const hostLimit =
+    hostLimits.get(host) ?? createSemaphore(MAX_CONCURRENT_FETCHES_PER_HOST);
+  hostLimits.set(host, hostLimit);
+
+  try {
+    return await hostLimit.run(() => globalLimit.run(task));
+  } finally {
+    // Forget idle hosts so the map doesn't grow with every feed ever seen
+    if (hostLimit.running === 0) {
+      hostLimits.delete(host);
+    }
+  }
+}
+
+/**
+ * Waits until another instance releases its lease on a source
+ * Returns false if the lease was still held after LEASE_WAIT_TIMEOUT
+ */
+async function waitForLeaseRelease(sourceId: string): Promise<boolean> {
+  const deadline = Date.now() + LEASE_WAIT_TIMEOUT;
+
+  while (await isRefreshLeased(sourceId)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_INTERVAL));
+  }
+  return true;
+}
+
+/**
+ * Checks how another instance's refresh of a source ended
+ *
+ * The holder records the outcome on the source before releasing its
+ * lease: a success clears lastError and moves lastSuccessAt past the time
+ * we started waiting; a failure stores lastError.
+ *
+ * @throws Error with the source's lastError if that refresh failed
+ */
+async function assertJoinedRefreshSucceeded(
+  sourceId: string,
+  startedAt: Date,
+): Promise<void> {
+  const source = await prisma.feedSource.findUnique({
+    where: { id: sourceId },
+    select: { lastSuccessAt: true, lastError: true },
+  });
+
+  if (source?.lastError) {
+    throw new Error(source.lastError);
+  }
+  if (!source?.lastSuccessAt || source.lastSuccessAt < startedAt) {
+    throw new Error("The refresh on another instance didn't finish");
+  }
+}
+
+/**
+ * Fetches a source while holding its refresh lease
+ *
+ * If another instance holds the lease, waits for it to finish instead of
+ * fetching the same URL again, and fails if that refresh failed. A lease
+ * still held after LEASE_WAIT_TIMEOUT counts as joined: the caller
+ * continues with the articles already stored.
+ */
+async function refreshWithLease(
+  sourceId: string,
+  url: string,
+): Promise<RefreshOutcome> {
+  const holder = randomUUID();
+  const startedAt = new Date();
+
+  const fetched = await runWithFetchLimits(url, async () => {
+    if (!(await acquireRefreshLease(sourceId, holder, LEASE_DURATION))) {
+      return false;
+    }
+
+    try {
+      await fetchAndStoreSource(sourceId);
+      return true;
+    } finally {
+      try {
+        await releaseRefreshLease(sourceId, holder);
+      } catch (releaseError) {
+        // The lease expires on its own; don't hide the fetch result
+        console.error("Failed to release refresh lease:", releaseError);
+      }
+    }
+  });
+
+  if (!fetched) {
+    if (await waitForLeaseRelease(sourceId)) {
+      await assertJoinedRefreshSucceeded(sourceId, startedAt);
+    }
+    return "joined";
+  }
+
+  return "fetched";
+}
+
+/**
+ * Refreshes a feed source, sharing one fetch between concurrent callers
+ *
+ * - Callers on this instance asking for a source that is already being
+ *   refreshed wait for that refresh (single flight)
+ * - Across instances, a lease document in MongoDB makes sure only one
+ *   of them fetches; the others wait for it
+ * - Fetches are capped globally and per host (see MAX_CONCURRENT_FETCHES)
+ *
+ * @param sourceId - Feed source to refresh
+ * @param url - The source's URL (used for the per-host limit)
+ * @returns Whether this call fetched or joined another refresh
+ * @throws Error if the fetch this call started or joined failed
+ */
+export async function refreshSource(
+  sourceId: string,
+  url: string,
+): Promise<RefreshOutcome> {
+  const existing = inFlight.get(sourceId);
+  if (existing) {
+    return existing.then(() => "joined");
+  }
+
+  const refresh = refreshWithLease(sourceId, url).finally(() => {
+    inFlight.delete(sourceId);
+  });
+  inFlight.set(sourceId, refresh);
+
+  return refresh;
+}
+
+/**
+ * Refreshes several feed sources through the coordinator
+ *
+ * All sources are requested at once; the coordinator's limits decide how
+ * many fetches actually run in parallel. One failure doesn't stop others.
+ *
+ * @param sourceIds - Feed sources to refresh
+ * @returns Counts of fetched, joined and failed refreshes
+ */
+export async function refreshSources(sourceIds: string[]) {
+  const sources = await prisma.feedSource.findMany({
+    where: { id: { in: sourceIds } },
+    select: { id: true, url: true },
+  });
+
+  const results = await Promise.allSettled(
+    sources.map((source) => refreshSource(source.id, source.url)),
+  );
+
+  return {
+    fetched: results.filter(
+      (r) => r.status === "fulfilled" && r.value === "fetched",
+    ).length,
+    joined: results.filter(
+      (r) => r.status === "fulfilled" && r.value === "joined",
+    ).length,
+    failed: results.filter((r) => r.status === "rejected").length,
+  };
+}
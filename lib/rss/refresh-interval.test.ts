@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { rssAdapter } from "./adapters/rss";
+import {
+  calculateRefreshInterval,
+  getMedianPublishGap,
+  MIN_REFRESH_INTERVAL_MINUTES,
+} from "./refresh-interval";
+
+const HOUR = 60 * 60_000;
+const NOW = Date.UTC(2025, 5, 1, 12);
+
+/**
+ * Dates of items published every `hours`, newest first
+ */
+function everyHours(hours: number, count: number): Date[] {
+  return Array.from(
+    { length: count },
+    (_, index) => new Date(NOW - index * hours * HOUR),
+  );
+}
+
+/**
+ * Dates of undated items, stamped with the fetch time a few ms apart
+ */
+function fetchTimes(count: number): Date[] {
+  return Array.from({ length: count }, (_, index) => new Date(NOW + index));
+}
+
+describe("getMedianPublishGap", () => {
+  it("returns the median gap in minutes", () => {
+    expect(getMedianPublishGap(everyHours(6, 5))).toBe(360);
+  });
+
+  it("ignores gaps under a minute", () => {
+    expect(getMedianPublishGap([...fetchTimes(10), ...everyHours(24, 4)])).toBe(
+      24 * 60,
+    );
+  });
+
+  it("returns undefined when every item was stamped at fetch time", () => {
+    expect(getMedianPublishGap(fetchTimes(10))).toBeUndefined();
+  });
+});
+
+describe("calculateRefreshInterval", () => {
+  it("doesn't poll a daily feed with undated items every 15 minutes", () => {
+    expect(
+      calculateRefreshInterval([...fetchTimes(10), ...everyHours(24, 3)]),
+    ).toBe(24 * 60);
+  });
+
+  it("falls back to the publisher's hint without usable dates", () => {
+    expect(calculateRefreshInterval(fetchTimes(5), 120)).toBe(120);
+    expect(calculateRefreshInterval(fetchTimes(5))).toBeUndefined();
+  });
+
+  it("never goes below the minimum interval", () => {
+    expect(calculateRefreshInterval(everyHours(0.05, 10))).toBe(
+      MIN_REFRESH_INTERVAL_MINUTES,
+    );
+  });
+});
+
+describe("RSS adapter dates", () => {
+  it("marks items without a date as undated", () => {
+    const { articles } = rssAdapter.parse(
+      `<rss version="2.0"><channel><title>Feed</title>
+        <item><guid>1</guid><title>Dated</title><pubDate>Sun, 01 Jun 2025 10:00:00 GMT</pubDate></item>
+        <item><guid>2</guid><title>Undated</title></item>
+      </channel></rss>`,
+      "feed",
+    );
+
+    expect(articles.map((article) => article.undated)).toEqual([false, true]);
+    expect(articles[0].pubDate.toISOString()).toBe("2025-06-01T10:00:00.000Z");
+  });
+});
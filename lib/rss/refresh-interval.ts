@@ -0,0 +1,130 @@
+// ============================================
+// ADAPTIVE REFRESH INTERVALS
+// ============================================
+
+/**
+ * Default cache window for RSS feeds (3 hours in milliseconds)
+ *
+ * Why 3 hours? This balances:
+ * - Fresh content for users
+ * - Reduced load on RSS feed servers
+ * - Better performance (fewer network requests)
+ *
+ * Feeds normally get their own refresh interval from their publishing
+ * cadence (see calculateRefreshInterval); this applies until one is known.
+ */
+export const CACHE_WINDOW = 3 * 60 * 60 * 1000; // 3 hours
+
+/**
+ * Shortest refresh interval for any feed (15 minutes)
+ * Even a newswire shouldn't be polled more often than this.
+ */
+export const MIN_REFRESH_INTERVAL_MINUTES = 15;
+
+/**
+ * Longest refresh interval for any feed (24 hours)
+ * Quiet feeds are still checked daily so new posts aren't missed for long.
+ */
+export const MAX_REFRESH_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * Number of most recent publication dates used to estimate the cadence
+ */
+const CADENCE_SAMPLE_SIZE = 20;
+
+/**
+ * Shortest gap between two publication dates that counts toward the cadence
+ * Items published within a minute of each other are one batch
+ */
+const MIN_PUBLISH_GAP_MINUTES = 1;
+
+/**
+ * Estimates how often a feed publishes from its articles' dates
+ *
+ * Uses the median gap between consecutive publication dates so a single
+ * burst or a long holiday doesn't skew the result. Gaps under a minute
+ * are ignored, so items stamped with the fetch time because they had no
+ * date can't pull the estimate down to zero.
+ *
+ * @param pubDates - Publication dates of the feed's articles
+ * @returns Median gap in minutes, or undefined with fewer than two
+ *   distinct dates
+ */
+export function getMedianPublishGap(pubDates: Date[]): number | undefined {
+  const times = [...new Set(pubDates.map((date) => date.getTime()))]
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => b - a)
+    .slice(0, CADENCE_SAMPLE_SIZE);
+
+  if (times.length < 2) {
+    return undefined;
+  }
+
+  const gaps = times
+    .slice(1)
+    .map((time, index) => (times[index] - time) / 60_000)
+    .filter((gap) => gap >= MIN_PUBLISH_GAP_MINUTES)
+    .sort((a, b) => a - b);
+
+  if (gaps.length === 0) {
+    return undefined;
+  }
+
+  const middle = Math.floor(gaps.length / 2);
+  return gaps.length % 2 === 0
+    ? (gaps[middle - 1] + gaps[middle]) / 2
+    : gaps[middle];
+}
+
+/**
+ * Calculates a feed's refresh interval
+ *
+ * - Observed cadence (median publish gap) is the starting point
+ * - The publisher's <ttl> / sy:updatePeriod hint is a lower bound:
+ *   refreshing more often than the publisher asks is wasted work
+ * - The result is clamped to [15 minutes, 24 hours]
+ *
+ * @param pubDates - Publication dates of the articles in the latest fetch
+ * @param refreshHintMinutes - Publisher's hint from the feed, if any
+ * @returns Refresh interval in whole minutes, or undefined when there is
+ *   nothing to go on (callers fall back to the global CACHE_WINDOW)
+ */
+export function calculateRefreshInterval(
+  pubDates: Date[],
+  refreshHintMinutes?: number,
+): number | undefined {
+  const cadence = getMedianPublishGap(pubDates);
+  const candidates = [cadence, refreshHintMinutes].filter(
+    (value): value is number => value !== undefined,
+  );
+
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const interval = Math.max(...candidates);
+
+  return Math.round(
+    Math.min(
+      Math.max(interval, MIN_REFRESH_INTERVAL_MINUTES),
+      MAX_REFRESH_INTERVAL_MINUTES,
+    ),
+  );
+}
+
+/**
+ * Returns when a source fetched now is next due for a refresh
+ *
+ * Stored as FeedSource.nextRefreshAt so stale sources can be found with
+ * a plain query instead of checking every source's interval in memory.
+ *
+ * @param refreshInterval - The source's adaptive interval in minutes (null = CACHE_WINDOW)
+ */
+export function getNextRefreshAt(
+  refreshInterval: number | null,
+  fetchedAt = new Date(),
+): Date {
+  const window =
+    refreshInterval !== null ? refreshInterval * 60 * 1000 : CACHE_WINDOW;
+  return new Date(fetchedAt.getTime() + window);
+}
@@ -0,0 +1,80 @@
+import {
+  isPrismaError,
+  wrapDatabaseOperation,
+} from "@/lib/database/error-handler";
+import { prisma } from "@/lib/prisma";
+
+// ============================================
+// REFRESH LEASES
+// ============================================
+//
+// Only the refresh coordinator (lib/rss/refresh-coordinator.ts) takes and
+// releases leases.
+
+/**
+ * Tries to take the refresh lease for a feed source
+ *
+ * Only one holder can own a source's lease at a time (unique sourceId).
+ * An expired lease - left behind by a crashed or timed-out refresh -
+ * is taken over.
+ *
+ * @param sourceId - Feed source about to be refreshed
+ * @param holder - Random token identifying this refresh
+ * @param durationMs - How long the lease is valid
+ * @returns True if the lease was acquired
+ */
+export async function acquireRefreshLease(
+  sourceId: string,
+  holder: string,
+  durationMs: number,
+) {
+  return wrapDatabaseOperation(async () => {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + durationMs);
+
+    try {
+      await prisma.refreshLease.create({
+        data: { sourceId, holder, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      if (!isPrismaError(error) || error.code !== "P2002") {
+        throw error;
+      }
+    }
+
+    // Someone holds the lease - take it over only if it has expired
+    const { count } = await prisma.refreshLease.updateMany({
+      where: { sourceId, expiresAt: { lt: now } },
+      data: { holder, expiresAt },
+    });
+
+    return count === 1;
+  }, "acquire refresh lease");
+}
+
+/**
+ * Releases a refresh lease held by this refresh
+ * A lease that was taken over by someone else is left alone
+ */
+export async function releaseRefreshLease(sourceId: string, holder: string) {
+  return wrapDatabaseOperation(async () => {
+    await prisma.refreshLease.deleteMany({
+      where: { sourceId, holder },
+    });
+  }, "release refresh lease");
+}
+
+/**
+ * Returns true while another refresh holds a valid lease on a source
+ */
+export async function isRefreshLeased(sourceId: string) {
+  return wrapDatabaseOperation(async () => {
+    const lease = await prisma.refreshLease.findUnique({
+      where: { sourceId },
+      select: { expiresAt: true },
+    });
+
+    return lease !== null && lease.expiresAt > new Date();
+  }, "check refresh lease");
+}
@@ -0,0 +1,307 @@
+import { prisma } from "@/lib/prisma";
+
+// ============================================
+// ARTICLE RETENTION & PRUNING
+// ============================================
+
+/**
+ * Default number of days articles are kept (override with ARTICLE_RETENTION_DAYS)
+ */
+export const DEFAULT_RETENTION_DAYS = 180;
+
+/**
+ * Default age in days after which article bodies are dropped and only the
+ * summary is kept (override with ARTICLE_COMPACT_AFTER_DAYS)
+ */
+export const DEFAULT_COMPACT_AFTER_DAYS = 30;
+
+/**
+ * Length of the summary written for compacted articles that had none
+ */
+const COMPACT_SUMMARY_LENGTH = 500;
+
+/**
+ * Number of old articles checked per query while pruning
+ */
+const PRUNE_BATCH_SIZE = 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Article pubDates a saved newsletter was generated from
+ * sourceIds is null when one of the newsletter's feeds no longer exists,
+ * in which case every article in the range is protected.
+ */
+interface ProtectedWindow {
+  sourceIds: Set<string> | null;
+  start: number;
+  end: number;
+}
+
+export interface RetentionPolicy {
+  retentionDays: number;
+  compactAfterDays: number;
+}
+
+/**
+ * Reads the retention policy from the environment
+ * Missing or invalid values fall back to the defaults
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const readDays = (value: string | undefined, fallback: number) => {
+    const days = Number.parseInt(value ?? "", 10);
+    return days > 0 ? days : fallback;
+  };
+
+  return {
+    retentionDays: readDays(
+      process.env.ARTICLE_RETENTION_DAYS,
+      DEFAULT_RETENTION_DAYS,
+    ),
+    compactAfterDays: readDays(
+      process.env.ARTICLE_COMPACT_AFTER_DAYS,
+      DEFAULT_COMPACT_AFTER_DAYS,
+    ),
+  };
+}
+
+/**
+ * Returns the publication date before which articles are deleted
+ *
+ * Feed refreshes skip items older than this: an item pruned while its
+ * feed still lists it would otherwise be stored (and extracted) again on
+ * the next fetch, only to be pruned on the next run.
+ */
+export function getRetentionCutoff(
+  retentionDays = getRetentionPolicy().retentionDays,
+  now = Date.now(),
+): Date {
+  return new Date(now - retentionDays * DAY);
+}
+
+/**
+ * Collects the article windows of saved newsletters older than a date
+ *
+ * Newsletters store the subscriptions and date range they were generated
+ * from, so an article is referenced by a newsletter when one of those
+ * subscriptions' sources published it inside the range.
+ */
+async function getProtectedWindows(before: Date): Promise<ProtectedWindow[]> {
+  const newsletters = await prisma.newsletter.findMany({
+    where: { startDate: { lt: before } },
+    select: { startDate: true, endDate: true, feedsUsed: true },
+  });
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      id: { in: [...new Set(newsletters.flatMap((n) => n.feedsUsed))] },
+    },
+    select: { id: true, sourceId: true },
+  });
+  const sourceIdBySubscription = new Map(
+    subscriptions.map((subscription) => [
+      subscription.id,
+      subscription.sourceId,
+    ]),
+  );
+
+  return newsletters.map((newsletter) => {
+    const sourceIds = newsletter.feedsUsed.map((id) =>
+      sourceIdBySubscription.get(id),
+    );
+
+    return {
+      sourceIds: sourceIds.every((id) => id !== undefined)
+        ? new Set(sourceIds as string[])
+        : null,
+      start: newsletter.startDate.getTime(),
+      end: newsletter.endDate.getTime(),
+    };
+  });
+}
+
+function isProtected(
+  article: { pubDate: Date; sourceIds: string[] },
+  windows: ProtectedWindow[],
+): boolean {
+  const time = article.pubDate.getTime();
+
+  return windows.some(
+    (window) =>
+      time >= window.start &&
+      time <= window.end &&
+      (window.sourceIds === null ||
+        article.sourceIds.some((id) => window.sourceIds?.has(id))),
+  );
+}
+
+/**
+ * Deletes articles older than the retention period
+ *
+ * Articles a saved newsletter was generated from are always kept.
+ * Old articles are read in batches by ID so deletions don't shift pages.
+ */
+async function deleteExpiredArticles(cutoff: Date, dryRun: boolean) {
+  const windows = await getProtectedWindows(cutoff);
+  const deletedBySource = new Map<string, number>();
+  let scanned = 0;
+  let deleted = 0;
+  let kept = 0;
+  let lastId: string | undefined;
+
+  while (true) {
+    const batch = await prisma.rssArticle.findMany({
+      where: {
+        pubDate: { lt: cutoff },
+        ...(lastId && { id: { gt: lastId } }),
+      },
+      select: { id: true, sourceId: true, sourceIds: true, pubDate: true },
+      orderBy: { id: "asc" },
+      take: PRUNE_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+    lastId = batch[batch.length - 1].id;
+    scanned += batch.length;
+
+    const expired = batch.filter((article) => !isProtected(article, windows));
+    kept += batch.length - expired.length;
+    deleted += expired.length;
+
+    for (const article of expired) {
+      deletedBySource.set(
+        article.sourceId,
+        (deletedBySource.get(article.sourceId) ?? 0) + 1,
+      );
+    }
+
+    if (!dryRun && expired.length > 0) {
+      await prisma.rssArticle.deleteMany({
+        where: { id: { in: expired.map((article) => article.id) } },
+      });
+    }
+  }
+
+  return { scanned, deleted, kept, deletedBySource };
+}
+
+/**
+ * Drops the bodies of old articles, keeping the summary
+ *
+ * content, contentMarkdown and fullText are cleared; an article without
+ * a summary gets the start of its Markdown as one. compactedAt marks
+ * articles that were already compacted. MongoDB-specific: a pipeline
+ * update copies one field into another in a single command.
+ */
+async function compactOldArticles(cutoff: Date, dryRun: boolean) {
+  if (dryRun) {
+    return await prisma.rssArticle.count({
+      where: {
+        pubDate: { lt: cutoff },
+        OR: [{ compactedAt: null }, { compactedAt: { isSet: false } }],
+      },
+    });
+  }
+
+  const result = await prisma.$runCommandRaw({
+    update: "RssArticle",
+    updates: [
+      {
+        q: {
+          pubDate: { $lt: { $date: cutoff.toISOString() } },
+          compactedAt: null,
+        },
+        u: [
+          {
+            $set: {
+              summary: {
+                $ifNull: [
+                  "$summary",
+                  {
+                    $substrCP: [
+                      { $ifNull: ["$contentMarkdown", ""] },
+                      0,
+                      COMPACT_SUMMARY_LENGTH,
+                    ],
+                  },
+                ],
+              },
+              content: null,
+              contentMarkdown: null,
+              fullText: null,
+              compactedAt: "$$NOW",
+              updatedAt: "$$NOW",
+            },
+          },
+        ],
+        multi: true,
+      },
+    ],
+  });
+
+  return typeof result.nModified === "number" ? result.nModified : 0;
+}
+
+/**
+ * Applies the retention policy to stored articles
+ *
+ * 1. Deletes articles older than retentionDays, except those referenced by
+ *    a saved newsletter (see getProtectedWindows)
+ * 2. Compacts articles older than compactAfterDays down to their summary
+ *
+ * Called by the scheduled prune route. In dry-run mode nothing is changed
+ * and the report shows what would have been removed.
+ *
+ * @param options - Policy overrides and dry-run flag
+ * @returns What was (or would be) deleted and compacted
+ */
+export async function pruneArticles(
+  options?: Partial<RetentionPolicy> & { dryRun?: boolean },
+) {
+  const defaults = getRetentionPolicy();
+  const policy: RetentionPolicy = {
+    retentionDays: options?.retentionDays ?? defaults.retentionDays,
+    compactAfterDays: options?.compactAfterDays ?? defaults.compactAfterDays,
+  };
+  const dryRun = options?.dryRun ?? false;
+  const now = Date.now();
+
+  const deleteCutoff = getRetentionCutoff(policy.retentionDays, now);
+  const compactCutoff = new Date(now - policy.compactAfterDays * DAY);
+
+  const { scanned, deleted, kept, deletedBySource } =
+    await deleteExpiredArticles(deleteCutoff, dryRun);
+  const compacted = await compactOldArticles(compactCutoff, dryRun);
+
+  const sources = await prisma.feedSource.findMany({
+    where: { id: { in: [...deletedBySource.keys()] } },
+    select: { id: true, url: true },
+  });
+  const urlById = new Map(sources.map((source) => [source.id, source.url]));
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}Article pruning complete: ${deleted} deleted, ` +
+      `${kept} kept for saved newsletters, ${compacted} compacted`,
+  );
+
+  return {
+    dryRun,
+    retentionDays: policy.retentionDays,
+    compactAfterDays: policy.compactAfterDays,
+    deleteCutoff,
+    compactCutoff,
+    scanned,
+    deleted,
+    keptForNewsletters: kept,
+    compacted,
+    deletedBySource: [...deletedBySource.entries()]
+      .map(([sourceId, count]) => ({
+        sourceId,
+        url: urlById.get(sourceId) ?? null,
+        count,
+      }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { USER_AGENT } from "./parser";
+import { isAllowedByRobots } from "./robots";
+
+function readFixture(name: string): string {
+  return readFileSync(
+    new URL(`./__fixtures__/robots/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+/**
+ * Serves a robots.txt response for every request
+ * robots.txt is cached per origin, so each test uses its own host.
+ */
+function stubRobotsTxt(body: string, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(body, { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isAllowedByRobots", () => {
+  it("applies the wildcard group's Disallow and Allow rules", async () => {
+    stubRobotsTxt(readFixture("wildcard.txt"));
+    const site = "https://wildcard.example.com";
+
+    await expect(
+      isAllowedByRobots(`${site}/news/story`, USER_AGENT),
+    ).resolves.toBe(true);
+    await expect(
+      isAllowedByRobots(`${site}/private/notes`, USER_AGENT),
+    ).resolves.toBe(false);
+    await expect(
+      isAllowedByRobots(`${site}/search?q=rss`, USER_AGENT),
+    ).resolves.toBe(false);
+  });
+
+  it("lets the longest matching rule win", async () => {
+    stubRobotsTxt(readFixture("wildcard.txt"));
+
+    await expect(
+      isAllowedByRobots(
+        "https://longest.example.com/private/press/release",
+        USER_AGENT,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it("supports * and $ in paths", async () => {
+    stubRobotsTxt(readFixture("wildcard.txt"));
+    const site = "https://patterns.example.com";
+
+    await expect(
+      isAllowedByRobots(`${site}/files/report.pdf`, USER_AGENT),
+    ).resolves.toBe(false);
+    await expect(
+      isAllowedByRobots(`${site}/files/report.pdf.html`, USER_AGENT),
+    ).resolves.toBe(true);
+  });
+
+  it("uses the group naming our user agent instead of the wildcard group", async () => {
+    stubRobotsTxt(readFixture("agent-specific.txt"));
+    const site = "https://agent.example.com";
+
+    await expect(
+      isAllowedByRobots(`${site}/articles/bike-lanes`, USER_AGENT),
+    ).resolves.toBe(true);
+    await expect(
+      isAllowedByRobots(`${site}/articles/drafts/next`, USER_AGENT),
+    ).resolves.toBe(false);
+    await expect(isAllowedByRobots(`${site}/about`, USER_AGENT)).resolves.toBe(
+      false,
+    );
+
+    // Other crawlers fall back to the wildcard group
+    await expect(
+      isAllowedByRobots(`${site}/articles/bike-lanes`, "SomeOtherBot/2.0"),
+    ).resolves.toBe(false);
+  });
+
+  it("ignores groups for other user agents", async () => {
+    stubRobotsTxt(readFixture("other-agent-only.txt"));
+
+    await expect(
+      isAllowedByRobots("https://other.example.com/story", USER_AGENT),
+    ).resolves.toBe(true);
+  });
+
+  it("allows everything when robots.txt is missing", async () => {
+    stubRobotsTxt("Not found", 404);
+
+    await expect(
+      isAllowedByRobots("https://missing.example.com/story", USER_AGENT),
+    ).resolves.toBe(true);
+  });
+
+  it("disallows everything when robots.txt can't be fetched", async () => {
+    stubRobotsTxt("Server error", 503);
+
+    await expect(
+      isAllowedByRobots("https://down.example.com/story", USER_AGENT),
+    ).resolves.toBe(false);
+  });
+
+  it("fetches robots.txt once per origin", async () => {
+    const fetchMock = stubRobotsTxt(readFixture("wildcard.txt"));
+    const site = "https://cached.example.com";
+
+    await isAllowedByRobots(`${site}/one`, USER_AGENT);
+    await isAllowedByRobots(`${site}/two`, USER_AGENT);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${site}/robots.txt`,
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,166 @@
+// ============================================
+// ROBOTS.TXT
+// ============================================
+
+const ROBOTS_TIMEOUT = 5000; // 5 second timeout
+
+/**
+ * How long a parsed robots.txt is reused for the same origin (1 hour)
+ */
+const ROBOTS_CACHE_TTL = 60 * 60 * 1000;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+const robotsCache = new Map<
+  string,
+  { groups: RobotsGroup[] | null; fetchedAt: number }
+>();
+
+/**
+ * Converts a robots.txt path pattern (with * and $) to a RegExp
+ */
+function patternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parses robots.txt into user-agent groups
+ */
+function parseRobotsTxt(robotsTxt: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((key === "allow" || key === "disallow") && current) {
+      // An empty Disallow means "allow everything"
+      if (value) {
+        current.rules.push({
+          allow: key === "allow",
+          pattern: patternToRegExp(value),
+          length: value.length,
+        });
+      }
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Checks a path against parsed robots.txt groups for a user agent
+ *
+ * Uses the most specific group that names the agent (falling back to *),
+ * then the longest matching rule. Allow wins ties.
+ */
+function isPathAllowed(
+  groups: RobotsGroup[],
+  userAgent: string,
+  path: string,
+): boolean {
+  const agent = userAgent.toLowerCase();
+  const specific = groups.filter((group) =>
+    group.agents.some((name) => name !== "*" && agent.includes(name)),
+  );
+  const applicable =
+    specific.length > 0
+      ? specific
+      : groups.filter((group) => group.agents.includes("*"));
+
+  let verdict: RobotsRule | undefined;
+  for (const rule of applicable.flatMap((group) => group.rules)) {
+    if (!rule.pattern.test(path)) {
+      continue;
+    }
+    if (
+      !verdict ||
+      rule.length > verdict.length ||
+      (rule.length === verdict.length && rule.allow)
+    ) {
+      verdict = rule;
+    }
+  }
+
+  return verdict?.allow ?? true;
+}
+
+/**
+ * Downloads and parses an origin's robots.txt (cached per origin)
+ *
+ * A missing robots.txt (4xx) allows everything. An unreachable one
+ * (5xx, timeout) returns null, which callers treat as "disallowed".
+ */
+async function getRobotsGroups(
+  origin: string,
+  userAgent: string,
+): Promise<RobotsGroup[] | null> {
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_TTL) {
+    return cached.groups;
+  }
+
+  let groups: RobotsGroup[] | null;
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT),
+    });
+
+    if (response.ok) {
+      groups = parseRobotsTxt(await response.text());
+    } else if (response.status >= 400 && response.status < 500) {
+      groups = [];
+    } else {
+      groups = null;
+    }
+  } catch {
+    groups = null;
+  }
+
+  robotsCache.set(origin, { groups, fetchedAt: Date.now() });
+  return groups;
+}
+
+/**
+ * Returns true if robots.txt lets the user agent fetch the URL
+ */
+export async function isAllowedByRobots(
+  url: string,
+  userAgent: string,
+): Promise<boolean> {
+  const parsed = new URL(url);
+  const groups = await getRobotsGroups(parsed.origin, userAgent);
+  if (!groups) {
+    return false;
+  }
+  return isPathAllowed(groups, userAgent, parsed.pathname + parsed.search);
+}
@@ -0,0 +1,55 @@
+import { wrapDatabaseOperation } from "@/lib/database/error-handler";
+import { prisma } from "@/lib/prisma";
+import { toFeedFilterRules } from "./filters";
+import type { FeedFilterRule, FeedSourceContext } from "./types";
+
+// ============================================
+// SUBSCRIPTION LOOKUPS
+// ============================================
+
+/**
+ * Resolves subscription IDs to their feed sources, filter rules and
+ * the user's name and note for each source
+ *
+ * Duplicate sources are returned once. A user subscribes to a source at
+ * most once, so each source has a single set of rules, name and note.
+ * IDs of other users' subscriptions are ignored.
+ *
+ * @returns Source IDs, each source's filter rules (empty if unfiltered)
+ *   and each source's context for the AI prompt
+ */
+export async function getSubscriptionSources(
+  userId: string,
+  subscriptionIds: string[],
+) {
+  return wrapDatabaseOperation(async () => {
+    const subscriptions = await prisma.subscription.findMany({
+      where: { id: { in: subscriptionIds }, userId },
+      select: {
+        sourceId: true,
+        customTitle: true,
+        note: true,
+        filterRules: true,
+        source: { select: { title: true } },
+      },
+    });
+
+    const filterRulesBySource: Record<string, FeedFilterRule[]> = {};
+    const contextBySource: Record<string, FeedSourceContext> = {};
+    for (const subscription of subscriptions) {
+      filterRulesBySource[subscription.sourceId] = toFeedFilterRules(
+        subscription.filterRules,
+      );
+      contextBySource[subscription.sourceId] = {
+        title: subscription.customTitle ?? subscription.source.title,
+        note: subscription.note,
+      };
+    }
+
+    return {
+      sourceIds: Object.keys(filterRulesBySource),
+      filterRulesBySource,
+      contextBySource,
+    };
+  }, "resolve feed sources");
+}
@@ -6,16 +6,18 @@
  * Data required to create an RSS article
  */
 export interface ArticleCreateData {
-  feedId: string;
+  sourceId: string;
   guid: string;
   title: string;
   link: string;
   content?: string;
+  contentMarkdown?: string;
   summary?: string;
   pubDate: Date;
   author?: string;
   categories?: string[];
   imageUrl?: string;
+  enclosures?: MediaEnclosure[];
 }
 
 /**
@@ -23,6 +25,7 @@ export interface ArticleCreateData {
  */
 export interface BulkOperationResult {
   created: number;
+  updated: number;
   skipped: number;
   errors: number;
 }
@@ -36,6 +39,8 @@ export interface FeedMetadata {
   link?: string;
   imageUrl?: string;
   language?: string;
+  /** Publisher's suggested refresh interval in minutes (<ttl>, sy:updatePeriod) */
+  refreshHintMinutes?: number;
 }
 
 /**
@@ -46,18 +51,170 @@ export interface ArticleData {
   title: string;
   link: string;
   content?: string;
+  contentMarkdown?: string;
   summary?: string;
+  /** Publication date; the fetch time when the item has none */
   pubDate: Date;
+  /** True when the item had no date and pubDate defaulted to the fetch time */
+  undated?: boolean;
   author?: string;
   categories: string[];
   imageUrl?: string;
+  /** Audio, video and other attached media (podcast episodes, videos) */
+  enclosures?: MediaEnclosure[];
+}
+
+/**
+ * A media file attached to an article
+ * From <enclosure>, media:content, Atom rel="enclosure" links or
+ * JSON Feed attachments
+ */
+export interface MediaEnclosure {
+  url: string;
+  /** MIME type, e.g. audio/mpeg or video/mp4 */
+  type?: string;
+  /** File size in bytes */
+  length?: number;
+  /** Playing time in seconds */
+  duration?: number;
+}
+
+/**
+ * Feed metadata and articles produced by a source adapter
+ */
+export interface ParsedFeed {
+  metadata: FeedMetadata;
+  articles: ArticleData[];
+}
+
+/**
+ * Source adapter for one feed format (RSS 2.0, Atom 1.0, JSON Feed 1.1, ...)
+ *
+ * Adapters map a raw feed document to the shared ArticleData / FeedMetadata
+ * types so the rest of the ingestion pipeline never sees format details.
+ */
+export interface FeedSourceAdapter {
+  /** Format name used in logs and errors */
+  name: string;
+  /** Returns true if this adapter understands the document */
+  canParse(body: string, contentType: string | null): boolean;
+  /** Parses the document; throws if it is malformed */
+  parse(body: string, feedId: string): ParsedFeed;
+}
+
+/**
+ * HTTP validators remembered between fetches for conditional GET requests
+ */
+export interface FeedCacheHeaders {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Result of a conditional feed fetch
+ * When the server answers 304 Not Modified there is nothing to parse
+ */
+export type FeedFetchResult =
+  | { notModified: true }
+  | {
+      notModified: false;
+      metadata: FeedMetadata;
+      articles: ArticleData[];
+      itemCount: number;
+      cacheHeaders: FeedCacheHeaders;
+    };
+
+/**
+ * A feed found while discovering feeds from a website URL
+ */
+export interface FeedCandidate {
+  url: string;
+  title?: string;
+  /** Feed format, e.g. "Atom 1.0" */
+  format: string;
+}
+
+/**
+ * Result of feed autodiscovery for a user-entered URL
+ * isFeed is true when the URL itself is already a feed
+ */
+export interface FeedDiscoveryResult {
+  isFeed: boolean;
+  candidates: FeedCandidate[];
+}
+
+/**
+ * A feed subscription read from or written to an OPML document
+ * folder is the path of enclosing outlines, joined with " / "
+ */
+export interface OpmlFeed {
+  url: string;
+  title?: string;
+  folder?: string;
+  link?: string;
+}
+
+/**
+ * Outcome of importing a single OPML feed
+ */
+export interface OpmlImportItem {
+  url: string;
+  title?: string;
+  folder?: string;
+  status: "added" | "duplicate" | "failed" | "limit";
+  message?: string;
 }
 
 /**
  * Parameters for feed preparation
  */
 export interface PrepareFeedsParams {
+  /** User generating the newsletter */
+  userId: string;
+  /** Subscription IDs selected by the user */
   feedIds: string[];
   startDate: Date;
   endDate: Date;
 }
+
+/**
+ * Fingerprints used to recognize the same story published under
+ * different GUIDs and URLs (see lib/rss/dedup.ts)
+ */
+export interface ArticleFingerprint {
+  canonicalUrl?: string;
+  simhash?: string;
+  simhashBands: string[];
+}
+
+/**
+ * Include/exclude rule applied to a subscription's articles
+ * (see lib/rss/filters.ts)
+ */
+export interface FeedFilterRule {
+  action: "include" | "exclude";
+  field: "title" | "categories" | "author" | "content";
+  matchType: "keyword" | "regex";
+  pattern: string;
+}
+
+/**
+ * An article as seen by filter rules
+ */
+export interface FilterableArticle {
+  title: string;
+  categories: string[];
+  author?: string | null;
+  contentMarkdown?: string | null;
+  summary?: string | null;
+  content?: string | null;
+}
+
+/**
+ * How a user describes one of their feed sources to the AI
+ * title is the user's custom name, falling back to the source's title
+ */
+export interface FeedSourceContext {
+  title: string | null;
+  note: string | null;
+}
@@ -0,0 +1,86 @@
+// ============================================
+// CONCURRENCY UTILITIES
+// ============================================
+
+/**
+ * Maps over items with at most `limit` async calls in flight
+ *
+ * Like Promise.allSettled(items.map(fn)), but never starts more than
+ * `limit` tasks at once. Results keep the order of the input items.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (>= 1)
+ * @param fn - Async function to run for each item
+ * @returns Settled results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await fn(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(limit, 1), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Limits how many async tasks run at the same time
+ *
+ * Tasks passed to run() beyond the limit wait in FIFO order until a
+ * running task settles.
+ *
+ * @param limit - Maximum number of concurrent tasks (>= 1)
+ * @returns A semaphore with run() and the number of running tasks
+ */
+export function createSemaphore(limit: number) {
+  const max = Math.max(limit, 1);
+  const waiting: (() => void)[] = [];
+  let running = 0;
+
+  // Hands the slot straight to the next waiting task, if any
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return {
+    get running() {
+      return running;
+    },
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+      if (running >= max) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      } else {
+        running++;
+      }
+      try {
+        return await fn();
+      } finally {
+        release();
+      }
+    },
+  };
+}
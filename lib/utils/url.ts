@@ -17,3 +17,23 @@ export function normalizeRssUrl(url: string): string {
   // Otherwise, prepend https://
   return `https://${trimmedUrl}`;
 }
+
+/**
+ * Normalizes a feed URL to the canonical form used for FeedSource.url
+ *
+ * Adds a missing protocol, lowercases the host and drops the #fragment,
+ * so different spellings of the same feed share one source. The path and
+ * query are kept as-is: unlike article links, feed URLs often only work
+ * exactly as published.
+ */
+export function canonicalizeFeedUrl(url: string): string {
+  const normalized = normalizeRssUrl(url);
+
+  try {
+    const parsed = new URL(normalized);
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return normalized;
+  }
+}
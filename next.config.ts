@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // linkedom optionally requires the native "canvas" package; load it from node_modules
+  serverExternalPackages: ["linkedom"],
 };
 
 export default nextConfig;
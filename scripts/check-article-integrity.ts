@@ -0,0 +1,28 @@
+import "dotenv/config";
+
+import { prisma } from "@/lib/prisma";
+import { checkArticleIntegrity } from "@/lib/rss/integrity";
+
+// ============================================
+// ARTICLE INTEGRITY CHECK
+// ============================================
+//
+// Finds articles (and subscriptions) that point at deleted feed sources,
+// see lib/rss/integrity.ts for the rules. Reports only by default:
+//
+//   pnpm check:articles            # report problems
+//   pnpm check:articles --repair   # reassign, clean up and delete orphans
+
+async function main() {
+  const repair = process.argv.includes("--repair");
+  const report = await checkArticleIntegrity({ repair });
+
+  console.log(JSON.stringify(report, null, 2));
+}
+
+main()
+  .catch((error) => {
+    console.error("Article integrity check failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,319 @@
+import "dotenv/config";
+
+import { type AnyBulkWriteOperation, MongoClient, ObjectId } from "mongodb";
+import { canonicalizeFeedUrl } from "@/lib/utils/url";
+
+// ============================================
+// MIGRATION: RssFeed -> FeedSource + Subscription
+// ============================================
+//
+// Splits the old per-user RssFeed documents into one shared FeedSource per
+// canonical URL and one Subscription per user:
+//
+// 1. Creates a FeedSource for every distinct canonical URL, taking fetch
+//    state and health from the most recently fetched RssFeed row
+// 2. Creates a Subscription for every RssFeed row, reusing its _id so
+//    feed IDs stored elsewhere (Newsletter.feedsUsed) stay valid
+// 3. Points Newsletter.feedsUsed entries of rows merged into another
+//    subscription (same user, same canonical URL) at the one kept
+// 4. Rewrites articles: feedId -> sourceId, sourceFeedIds -> sourceIds
+// 5. Renames the RssFeed collection to RssFeed_legacy as a backup
+//
+// Run it once, before deploying the code that uses the new models:
+//
+//   pnpm migrate:feed-sources --dry-run   # report only
+//   pnpm migrate:feed-sources
+//   pnpm prisma:push                      # create the new indexes
+//
+// The script is idempotent: documents that were already migrated are skipped.
+
+/**
+ * Number of documents written per bulk operation
+ */
+const BATCH_SIZE = 500;
+
+interface LegacyFeed {
+  _id: ObjectId;
+  userId: ObjectId;
+  url: string;
+  title?: string | null;
+  description?: string | null;
+  link?: string | null;
+  imageUrl?: string | null;
+  language?: string | null;
+  folder?: string | null;
+  lastFetched?: Date | null;
+  etag?: string | null;
+  lastModified?: string | null;
+  refreshInterval?: number | null;
+  fullTextEnabled?: boolean;
+  consecutiveFailures?: number;
+  lastError?: string | null;
+  lastSuccessAt?: Date | null;
+  nextRetryAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface LegacyNewsletter {
+  _id: ObjectId;
+  feedsUsed: ObjectId[];
+}
+
+interface LegacyArticle {
+  _id: ObjectId;
+  feedId?: ObjectId;
+  sourceFeedIds?: ObjectId[];
+}
+
+/**
+ * Picks the row whose fetch state the shared source should inherit
+ */
+function getFreshestFeed(feeds: LegacyFeed[]): LegacyFeed {
+  return feeds.reduce((freshest, feed) =>
+    (feed.lastFetched?.getTime() ?? 0) > (freshest.lastFetched?.getTime() ?? 0)
+      ? feed
+      : freshest,
+  );
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not set");
+  }
+
+  const client = new MongoClient(databaseUrl);
+  await client.connect();
+
+  try {
+    const db = client.db();
+    const legacyFeeds = await db
+      .collection<LegacyFeed>("RssFeed")
+      .find()
+      .toArray();
+
+    if (legacyFeeds.length === 0) {
+      console.log("No RssFeed documents found - nothing to migrate");
+      return;
+    }
+
+    const sources = db.collection("FeedSource");
+    const subscriptions = db.collection("Subscription");
+    const articles = db.collection<LegacyArticle>("RssArticle");
+
+    // 1. One shared source per canonical URL
+    const feedsByUrl = new Map<string, LegacyFeed[]>();
+    for (const feed of legacyFeeds) {
+      const url = canonicalizeFeedUrl(feed.url);
+      feedsByUrl.set(url, [...(feedsByUrl.get(url) ?? []), feed]);
+    }
+
+    const sourceIdByFeedId = new Map<string, ObjectId>();
+    let sourcesCreated = 0;
+
+    for (const [url, feeds] of feedsByUrl) {
+      const existing = await sources.findOne(
+        { url },
+        { projection: { _id: 1 } },
+      );
+      const sourceId = existing?._id ?? new ObjectId();
+
+      for (const feed of feeds) {
+        sourceIdByFeedId.set(feed._id.toHexString(), sourceId);
+      }
+
+      if (existing) {
+        continue;
+      }
+
+      const freshest = getFreshestFeed(feeds);
+      const withMetadata = feeds.find((feed) => feed.title) ?? freshest;
+      sourcesCreated++;
+
+      if (!dryRun) {
+        await sources.insertOne({
+          _id: sourceId,
+          url,
+          title: withMetadata.title ?? null,
+          description: withMetadata.description ?? null,
+          link: withMetadata.link ?? null,
+          imageUrl: withMetadata.imageUrl ?? null,
+          language: withMetadata.language ?? null,
+          lastFetched: freshest.lastFetched ?? null,
+          etag: freshest.etag ?? null,
+          lastModified: freshest.lastModified ?? null,
+          refreshInterval: freshest.refreshInterval ?? null,
+          consecutiveFailures: freshest.consecutiveFailures ?? 0,
+          lastError: freshest.lastError ?? null,
+          lastSuccessAt: freshest.lastSuccessAt ?? null,
+          nextRetryAt: freshest.nextRetryAt ?? null,
+          createdAt: new Date(
+            Math.min(...feeds.map((feed) => feed.createdAt.getTime())),
+          ),
+          updatedAt: new Date(),
+        });
+      }
+    }
+
+    // 2. One subscription per old feed row, keeping its ID
+    // Two spellings of one URL by the same user collapse into one subscription
+    const subscribed = new Map<string, ObjectId>();
+    const keptIdByMergedId = new Map<string, ObjectId>();
+    const subscriptionOps: AnyBulkWriteOperation[] = [];
+    let duplicateSubscriptions = 0;
+
+    for (const feed of legacyFeeds) {
+      const sourceId = sourceIdByFeedId.get(feed._id.toHexString());
+      const key = `${feed.userId.toHexString()}:${sourceId?.toHexString()}`;
+      const keptId = subscribed.get(key);
+      if (!sourceId || keptId) {
+        duplicateSubscriptions++;
+        if (keptId) {
+          keptIdByMergedId.set(feed._id.toHexString(), keptId);
+        }
+        continue;
+      }
+      subscribed.set(key, feed._id);
+
+      subscriptionOps.push({
+        updateOne: {
+          filter: { _id: feed._id },
+          update: {
+            $setOnInsert: {
+              userId: feed.userId,
+              sourceId,
+              customTitle: null,
+              folder: feed.folder ?? null,
+              fullTextEnabled: feed.fullTextEnabled ?? false,
+              createdAt: feed.createdAt,
+              updatedAt: feed.updatedAt,
+            },
+          },
+          upsert: true,
+        },
+      });
+    }
+
+    if (!dryRun) {
+      for (let i = 0; i < subscriptionOps.length; i += BATCH_SIZE) {
+        await subscriptions.bulkWrite(subscriptionOps.slice(i, i + BATCH_SIZE));
+      }
+    }
+
+    // 3. Newsletters that used a merged row now reference the kept one
+    const newsletters = db.collection<LegacyNewsletter>("Newsletter");
+    const mergedIds = [...keptIdByMergedId.keys()].map(
+      (id) => new ObjectId(id),
+    );
+    const newsletterOps: AnyBulkWriteOperation<LegacyNewsletter>[] = [];
+
+    if (mergedIds.length > 0) {
+      const affected = newsletters.find(
+        { feedsUsed: { $in: mergedIds } },
+        { projection: { _id: 1, feedsUsed: 1 } },
+      );
+
+      for await (const newsletter of affected) {
+        const feedsUsed = [
+          ...new Map(
+            newsletter.feedsUsed
+              .map((id) => keptIdByMergedId.get(id.toHexString()) ?? id)
+              .map((id) => [id.toHexString(), id]),
+          ).values(),
+        ];
+        newsletterOps.push({
+          updateOne: {
+            filter: { _id: newsletter._id },
+            update: { $set: { feedsUsed } },
+          },
+        });
+      }
+    }
+
+    if (!dryRun) {
+      for (let i = 0; i < newsletterOps.length; i += BATCH_SIZE) {
+        await newsletters.bulkWrite(newsletterOps.slice(i, i + BATCH_SIZE));
+      }
+    }
+
+    // 4. Articles now belong to sources instead of feed rows
+    const toSourceId = (feedId: ObjectId | undefined) =>
+      feedId ? sourceIdByFeedId.get(feedId.toHexString()) : undefined;
+
+    let articlesMigrated = 0;
+    let orphanedArticles = 0;
+    let articleOps: AnyBulkWriteOperation<LegacyArticle>[] = [];
+
+    const flushArticles = async () => {
+      if (!dryRun && articleOps.length > 0) {
+        await articles.bulkWrite(articleOps);
+      }
+      articleOps = [];
+    };
+
+    const cursor = articles.find(
+      { feedId: { $exists: true } },
+      { projection: { _id: 1, feedId: 1, sourceFeedIds: 1 } },
+    );
+
+    for await (const article of cursor) {
+      const sourceIds = [
+        ...new Map(
+          [article.feedId, ...(article.sourceFeedIds ?? [])]
+            .map(toSourceId)
+            .filter((id): id is ObjectId => id !== undefined)
+            .map((id) => [id.toHexString(), id]),
+        ).values(),
+      ];
+
+      // No remaining feed references the article (left behind by an old
+      // feed deletion) - nothing could ever show it, so remove it
+      if (sourceIds.length === 0) {
+        orphanedArticles++;
+        articleOps.push({ deleteOne: { filter: { _id: article._id } } });
+      } else {
+        articlesMigrated++;
+        articleOps.push({
+          updateOne: {
+            filter: { _id: article._id },
+            update: {
+              $set: {
+                sourceId: toSourceId(article.feedId) ?? sourceIds[0],
+                sourceIds,
+              },
+              $unset: { feedId: "", sourceFeedIds: "" },
+            },
+          },
+        });
+      }
+
+      if (articleOps.length >= BATCH_SIZE) {
+        await flushArticles();
+      }
+    }
+    await flushArticles();
+
+    // 5. Keep the old collection as a backup instead of dropping it
+    if (!dryRun) {
+      await db.collection("RssFeed").rename("RssFeed_legacy");
+    }
+
+    console.log(
+      `${dryRun ? "[dry run] " : ""}Migrated ${legacyFeeds.length} feeds into ` +
+        `${feedsByUrl.size} sources (${sourcesCreated} new) and ` +
+        `${subscriptionOps.length} subscriptions ` +
+        `(${duplicateSubscriptions} duplicates merged, ` +
+        `${newsletterOps.length} newsletters repointed); ` +
+        `${articlesMigrated} articles updated, ${orphanedArticles} orphaned articles removed`,
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error("Feed source migration failed:", error);
+  process.exit(1);
+});